@@ -0,0 +1,697 @@
+// Offline stand-in for the Daytona API, for running the MCP server without a
+// Daytona account:
+//
+//   npm run fake-api
+//   DAYTONA_API_URL=http://localhost:4010 DAYTONA_API_KEY=fake npm run dev
+//
+// Sandboxes, snapshots, volumes, organizations, API keys, toolbox sessions and
+// sandbox files are kept in memory. State changes take FAKE_TRANSITION_MS
+// (default 500) milliseconds, like the real transitional states. Commands are
+// not run: `echo`, `pwd`, `cat`, `sleep`, `true`, `false` and `exit <code>` are
+// emulated, anything else succeeds without output. runCode gets a kernel that
+// prints literals and raises, see runKernelCode.
+//
+// FAKE_RATE_LIMIT throttles each API key to that many requests per second with
+// 429 responses, and FAKE_ERROR_RATE fails that share of requests with a 503,
+// to try out the client's retries and circuit breaker. API keys starting with
+// `invalid` are rejected with a 401. PORT=0 picks a free port, which is logged.
+
+import { randomBytes, randomUUID } from "crypto";
+import { createServer } from "http";
+import { posix } from "path";
+
+const PORT = Number(process.env.PORT || 4010);
+const TRANSITION_MS = Number(process.env.FAKE_TRANSITION_MS || 500);
+const RATE_LIMIT = Number(process.env.FAKE_RATE_LIMIT || 0);
+const ERROR_RATE = Number(process.env.FAKE_ERROR_RATE || 0);
+const ORGANIZATION_ID = "fake-org";
+const USER_ID = "fake-user";
+
+// ==================== STATE ====================
+
+const now = () => new Date().toISOString();
+
+const apiKeys = new Map([
+  ["default", { name: "default", value: "fake", permissions: ["write:sandboxes", "delete:sandboxes"], createdAt: now(), expiresAt: null, lastUsedAt: now() }]
+]);
+const organizations = new Map([
+  [ORGANIZATION_ID, { id: ORGANIZATION_ID, name: "Personal", createdBy: USER_ID, personal: true, createdAt: now(), updatedAt: now() }]
+]);
+const members = new Map([
+  [ORGANIZATION_ID, [{ userId: USER_ID, organizationId: ORGANIZATION_ID, name: "Fake User", email: "user@example.com", role: "owner" }]]
+]);
+const roles = new Map([[ORGANIZATION_ID, []]]);
+const quotas = new Map();
+const sandboxes = new Map();
+const snapshots = new Map([
+  ["daytonaio/sandbox:0.3.0", { id: "daytonaio/sandbox:0.3.0", name: "daytonaio/sandbox:0.3.0", imageName: "daytonaio/sandbox:0.3.0", state: "active", general: true, size: 1.2, createdAt: now(), updatedAt: now() }]
+]);
+const buildLogs = new Map();
+const volumes = new Map();
+// Per sandbox: files by absolute path, and sessions by ID
+const files = new Map();
+const sessions = new Map();
+
+// ==================== HELPERS ====================
+
+class ApiError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// Where the fake is listening, which differs from PORT when that is 0
+const origin = () => `http://localhost:${server.address().port}`;
+
+const notFound = (kind, id) => new ApiError(404, `${kind} with ID ${id} not found`);
+
+const find = (map, kind, id) => {
+  const entity = map.get(id) ?? [...map.values()].find(candidate => candidate.name === id);
+  if (!entity) throw notFound(kind, id);
+  return entity;
+};
+
+// Moves an entity through a transitional state, e.g. stopping, to its target
+const transition = (entity, during, target, after) => {
+  entity.state = during;
+  entity.updatedAt = now();
+  setTimeout(() => {
+    entity.state = target;
+    entity.updatedAt = now();
+    after?.();
+  }, TRANSITION_MS);
+};
+
+const sandboxFiles = sandboxId => {
+  if (!files.has(sandboxId)) files.set(sandboxId, new Map());
+  return files.get(sandboxId);
+};
+
+// Relative toolbox paths are relative to the home directory
+const absolute = path => posix.resolve("/home/daytona", path || ".");
+
+const fileInfo = (path, file) => ({
+  name: posix.basename(path),
+  isDir: file.isDir,
+  size: file.isDir ? 4096 : file.content.length,
+  mode: file.mode,
+  permissions: file.mode,
+  modTime: file.modTime,
+  owner: "daytona",
+  group: "daytona"
+});
+
+const writeFile = (sandboxId, path, content) => {
+  const entries = sandboxFiles(sandboxId);
+  for (let dir = posix.dirname(path); dir !== "/"; dir = posix.dirname(dir)) {
+    if (!entries.has(dir)) entries.set(dir, { isDir: true, mode: "0755", modTime: now() });
+  }
+  entries.set(path, { isDir: false, content: Buffer.from(content), mode: "0644", modTime: now() });
+};
+
+const runningSandbox = sandboxId => {
+  const sandbox = find(sandboxes, "Sandbox", sandboxId);
+  if (sandbox.state !== "started") throw new ApiError(400, `Sandbox ${sandboxId} is not started`);
+  return sandbox;
+};
+
+// runCode hands code to a kernel through files, see src/lib/kernels.ts. The
+// fake kernel answers right away and only knows `print(...)` and
+// `console.log(...)` of literals, `raise` and `throw`, and a literal on the
+// last line as the result.
+const literal = text => text.trim().replace(/^(["'])(.*)\1$/, "$2");
+
+const runKernelCode = (sandboxId, path) => {
+  const entries = sandboxFiles(sandboxId);
+  const code = entries.get(path)?.content.toString() ?? "";
+  entries.delete(path);
+
+  const response = { stdout: "", stderr: "", result: null, exception: null, artifacts: [] };
+  const lines = code.split("\n").map(line => line.trim()).filter(Boolean);
+  for (const [index, line] of lines.entries()) {
+    const output = line.match(/^(?:print|console\.log)\((.*)\);?$/);
+    const error = line.match(/^(?:raise|throw)\s+(.*?);?$/);
+    if (output) {
+      response.stdout += `${literal(output[1])}\n`;
+    } else if (error) {
+      response.exception = `${error[1]}\n`;
+      break;
+    } else if (index === lines.length - 1 && /^(["']).*\1$|^-?\d+(\.\d+)?$/.test(line)) {
+      response.result = line;
+    }
+  }
+  return response;
+};
+
+// Emulates the few commands tools and prompts rely on
+const runCommand = (sandboxId, command, cwd) => {
+  const kernelRequest = command.match(/^sh -c 'mv (\S+)\.code \1\.request && /);
+  if (kernelRequest) {
+    // Code that sleeps outlasts the wait for its response, and code that exits ends the kernel
+    const code = sandboxFiles(sandboxId).get(`${kernelRequest[1]}.code`)?.content.toString() ?? "";
+    if (/\bsleep\(/.test(code)) return { exitCode: 124, result: "" };
+    if (/exit\(/.test(code)) return { exitCode: 125, result: "" };
+    return { exitCode: 0, result: JSON.stringify(runKernelCode(sandboxId, `${kernelRequest[1]}.code`)) };
+  }
+
+  const [program, ...args] = command.trim().split(/\s+/);
+  const text = args.join(" ").replace(/^["']|["']$/g, "");
+  switch (program) {
+    case "echo": return { exitCode: 0, result: `${text}\n` };
+    case "pwd": return { exitCode: 0, result: `${absolute(cwd)}\n` };
+    case "true": case "sleep": case "mkdir": return { exitCode: 0, result: "" };
+    case "false": return { exitCode: 1, result: "" };
+    case "exit": return { exitCode: Number(args[0]) || 0, result: "" };
+    case "cat": {
+      const file = sandboxFiles(sandboxId).get(posix.resolve(absolute(cwd), text));
+      return file && !file.isDir
+        ? { exitCode: 0, result: file.content.toString() }
+        : { exitCode: 1, result: `cat: ${text}: No such file or directory\n` };
+    }
+    default: return { exitCode: 0, result: "" };
+  }
+};
+
+// Session command logs prefix stdout with three 0x01 bytes
+const commandLogs = result => Buffer.concat([Buffer.from([1, 1, 1]), Buffer.from(result)]);
+
+const sleepSeconds = command => Number(command.match(/^sleep\s+(\d+(?:\.\d+)?)/)?.[1] ?? 0);
+
+// First file of a multipart/form-data body
+const multipartFile = (body, contentType) => {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (!boundary) return body;
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+  const start = body.indexOf(delimiter);
+  const headersEnd = body.indexOf("\r\n\r\n", start);
+  const end = body.indexOf(delimiter, headersEnd);
+  return body.subarray(headersEnd + 4, end - 2);
+};
+
+// ==================== ROUTES ====================
+
+const routes = [];
+const route = (method, pattern, handler) => {
+  const names = [];
+  const regexp = new RegExp(`^${pattern.replace(/:(\w+)\*?/g, (match, name) => {
+    names.push(name);
+    return match.endsWith("*") ? "(.+)" : "([^/]+)";
+  })}$`);
+  routes.push({ method, regexp, names, handler });
+};
+
+// API keys
+route("GET", "/api-keys", () => [...apiKeys.values()].map(({ value, ...key }) => key));
+route("POST", "/api-keys", ({ body }) => {
+  if (apiKeys.has(body.name)) throw new ApiError(409, `API key ${body.name} already exists`);
+  const key = { name: body.name, value: `fake_${randomBytes(12).toString("hex")}`, permissions: body.permissions ?? [], createdAt: now(), expiresAt: body.expiresAt ?? null, lastUsedAt: null };
+  apiKeys.set(key.name, key);
+  return key;
+});
+// The key a request was made with, other tokens act as the default key
+route("GET", "/api-keys/current", ({ headers }) => {
+  const token = headers.authorization?.replace(/^Bearer /, "");
+  const { value, ...key } = [...apiKeys.values()].find(candidate => candidate.value === token) ?? apiKeys.get("default") ?? [...apiKeys.values()][0];
+  return key;
+});
+route("GET", "/api-keys/:name", ({ params }) => {
+  const { value, ...key } = find(apiKeys, "API key", params.name);
+  return key;
+});
+route("DELETE", "/api-keys/:name", ({ params }) => {
+  find(apiKeys, "API key", params.name);
+  apiKeys.delete(params.name);
+});
+
+// Organizations
+route("GET", "/organizations", () => [...organizations.values()]);
+route("POST", "/organizations", ({ body }) => {
+  const organization = { id: randomUUID(), name: body.name, createdBy: USER_ID, personal: false, createdAt: now(), updatedAt: now() };
+  organizations.set(organization.id, organization);
+  members.set(organization.id, [{ userId: USER_ID, organizationId: organization.id, name: "Fake User", email: "user@example.com", role: "owner" }]);
+  roles.set(organization.id, []);
+  return organization;
+});
+route("GET", "/organizations/:id", ({ params }) => find(organizations, "Organization", params.id));
+route("DELETE", "/organizations/:id", ({ params }) => {
+  const organization = find(organizations, "Organization", params.id);
+  if (organization.personal) throw new ApiError(403, "The personal organization cannot be deleted");
+  organizations.delete(params.id);
+});
+route("GET", "/organizations/:id/usage", ({ params }) => {
+  find(organizations, "Organization", params.id);
+  const active = [...sandboxes.values()].filter(sandbox => sandbox.state === "started");
+  return {
+    currentCpuUsage: active.reduce((sum, sandbox) => sum + sandbox.cpu, 0),
+    currentMemoryUsage: active.reduce((sum, sandbox) => sum + sandbox.memory, 0),
+    currentDiskUsage: [...sandboxes.values()].reduce((sum, sandbox) => sum + sandbox.disk, 0),
+    ...quotas.get(params.id)
+  };
+});
+route("PATCH", "/organizations/:id/quota", ({ params, body }) => {
+  find(organizations, "Organization", params.id);
+  quotas.set(params.id, { ...quotas.get(params.id), ...body });
+});
+route("GET", "/organizations/:id/users", ({ params }) => {
+  find(organizations, "Organization", params.id);
+  return members.get(params.id);
+});
+route("POST", "/organizations/:id/users/:userId/role", ({ params, body }) => {
+  const member = (members.get(params.id) ?? []).find(candidate => candidate.userId === params.userId);
+  if (!member) throw notFound("Member", params.userId);
+  member.role = body.role;
+  return member;
+});
+route("DELETE", "/organizations/:id/users/:userId", ({ params }) => {
+  const list = members.get(params.id) ?? [];
+  if (!list.some(member => member.userId === params.userId)) throw notFound("Member", params.userId);
+  members.set(params.id, list.filter(member => member.userId !== params.userId));
+});
+route("GET", "/organizations/:id/roles", ({ params }) => {
+  find(organizations, "Organization", params.id);
+  return roles.get(params.id);
+});
+route("POST", "/organizations/:id/roles", ({ params, body }) => {
+  find(organizations, "Organization", params.id);
+  const role = { id: randomUUID(), name: body.name, description: body.description, permissions: body.permissions ?? [] };
+  roles.get(params.id).push(role);
+  return role;
+});
+
+// Sandboxes
+route("GET", "/sandbox", ({ query }) => {
+  const labels = query.get("labels") ? JSON.parse(query.get("labels")) : {};
+  return [...sandboxes.values()].filter(sandbox =>
+    Object.entries(labels).every(([key, value]) => sandbox.labels[key] === value)
+  );
+});
+route("POST", "/sandbox", ({ body }) => {
+  const snapshot = body.snapshot ?? "daytonaio/sandbox:0.3.0";
+  find(snapshots, "Snapshot", snapshot);
+  for (const mount of body.volumes ?? []) find(volumes, "Volume", mount.volumeId);
+
+  const sandbox = {
+    id: randomUUID(),
+    organizationId: ORGANIZATION_ID,
+    snapshot,
+    user: body.user ?? "daytona",
+    env: body.env ?? {},
+    labels: body.labels ?? {},
+    public: body.public ?? false,
+    target: "us",
+    class: "small",
+    cpu: body.cpu ?? 1,
+    gpu: body.gpu ?? 0,
+    memory: body.memory ?? 1,
+    disk: body.disk ?? 3,
+    state: "creating",
+    errorReason: null,
+    autoStopInterval: body.autoStopInterval ?? 15,
+    autoArchiveInterval: body.autoArchiveInterval ?? 10080,
+    volumes: body.volumes ?? [],
+    createdAt: now(),
+    updatedAt: now()
+  };
+  sandboxes.set(sandbox.id, sandbox);
+  transition(sandbox, "creating", "started");
+  return sandbox;
+});
+route("GET", "/sandbox/:id", ({ params }) => find(sandboxes, "Sandbox", params.id));
+route("DELETE", "/sandbox/:id", ({ params, query }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  if (sandbox.state === "started" && query.get("force") !== "true") {
+    throw new ApiError(400, "Sandbox must be stopped before it is deleted, or deleted with force");
+  }
+  transition(sandbox, "destroying", "destroyed", () => {
+    sandboxes.delete(sandbox.id);
+    files.delete(sandbox.id);
+    sessions.delete(sandbox.id);
+  });
+});
+route("POST", "/sandbox/:id/start", ({ params }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  if (!["stopped", "archived"].includes(sandbox.state)) throw new ApiError(400, `Sandbox is ${sandbox.state}`);
+  transition(sandbox, "starting", "started");
+});
+route("POST", "/sandbox/:id/stop", ({ params }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  if (sandbox.state !== "started") throw new ApiError(400, `Sandbox is ${sandbox.state}`);
+  transition(sandbox, "stopping", "stopped");
+});
+route("POST", "/sandbox/:id/archive", ({ params }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  if (sandbox.state !== "stopped") throw new ApiError(400, "Only stopped sandboxes can be archived");
+  transition(sandbox, "archiving", "archived");
+});
+route("PUT", "/sandbox/:id/labels", ({ params, body }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  sandbox.labels = body.labels ?? {};
+  return { labels: sandbox.labels };
+});
+route("POST", "/sandbox/:id/autostop/:minutes", ({ params }) => {
+  find(sandboxes, "Sandbox", params.id).autoStopInterval = Number(params.minutes);
+});
+route("POST", "/sandbox/:id/autoarchive/:minutes", ({ params }) => {
+  find(sandboxes, "Sandbox", params.id).autoArchiveInterval = Number(params.minutes);
+});
+route("POST", "/sandbox/:id/resize", ({ params, body }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  Object.assign(sandbox, Object.fromEntries(["cpu", "memory", "disk"].filter(key => body[key] !== undefined).map(key => [key, body[key]])));
+  return sandbox;
+});
+route("POST", "/sandbox/:id/public/:isPublic", ({ params }) => {
+  find(sandboxes, "Sandbox", params.id).public = params.isPublic === "true";
+});
+route("GET", "/sandbox/:id/ports/:port/preview-url", ({ params }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  return { sandboxId: sandbox.id, url: `${origin()}/preview/${sandbox.id}/${params.port}/`, token: sandbox.public ? null : "fake-preview-token" };
+});
+route("GET", "/preview/:id/:port/:path*", () => ({ ok: true }));
+route("GET", "/preview/:id/:port/", () => ({ ok: true }));
+route("POST", "/sandbox/:id/snapshot", ({ params, body }) => {
+  const sandbox = find(sandboxes, "Sandbox", params.id);
+  const snapshot = { id: randomUUID(), name: body.name, imageName: `${sandbox.snapshot}-${body.name}`, state: "pending", general: false, size: 1, createdAt: now(), updatedAt: now() };
+  snapshots.set(snapshot.id, snapshot);
+  transition(snapshot, "pending", "active");
+});
+
+// Snapshots
+route("GET", "/snapshots", ({ query }) => {
+  const all = [...snapshots.values()];
+  const limit = Number(query.get("limit") || 100);
+  const page = Number(query.get("page") || 1);
+  return { items: all.slice((page - 1) * limit, page * limit), total: all.length, page, totalPages: Math.max(1, Math.ceil(all.length / limit)) };
+});
+route("POST", "/snapshots", ({ body }) => {
+  if ([...snapshots.values()].some(snapshot => snapshot.name === body.name)) throw new ApiError(409, `Snapshot ${body.name} already exists`);
+  if (!body.imageName && !body.buildInfo) throw new ApiError(400, "imageName or buildInfo is required");
+
+  const snapshot = { id: randomUUID(), name: body.name, imageName: body.imageName ?? null, entrypoint: body.entrypoint, state: "pending", general: body.general ?? false, cpu: body.cpu, gpu: body.gpu, mem: body.memory, disk: body.disk, size: 1, createdAt: now(), updatedAt: now() };
+  snapshots.set(snapshot.id, snapshot);
+  if (body.buildInfo) {
+    buildLogs.set(snapshot.id, body.buildInfo.dockerfileContent.split("\n").filter(Boolean).map((line, index) => `Step ${index + 1}: ${line}\n`).join(""));
+    transition(snapshot, "building", "active");
+  } else {
+    transition(snapshot, "pending", "active");
+  }
+  return snapshot;
+});
+route("GET", "/snapshots/:id", ({ params }) => find(snapshots, "Snapshot", params.id));
+route("DELETE", "/snapshots/:id", ({ params }) => {
+  const snapshot = find(snapshots, "Snapshot", params.id);
+  snapshots.delete(snapshot.id);
+});
+route("GET", "/snapshots/:id/build-logs", ({ params, query }) => {
+  const snapshot = find(snapshots, "Snapshot", params.id);
+  const logs = buildLogs.get(snapshot.id) ?? "";
+  if (query.get("follow") !== "true") return { text: logs };
+
+  return {
+    stream: async response => {
+      response.write(logs);
+      while (["pending", "building"].includes(snapshot.state) && !response.destroyed) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      response.end();
+    }
+  };
+});
+route("GET", "/object-storage/push-access", () => ({
+  accessKey: "fake", secret: "fake", sessionToken: "fake", storageUrl: `${origin()}/object-storage`, organizationId: ORGANIZATION_ID, bucket: "daytona"
+}));
+route("PUT", "/object-storage/:key*", () => undefined);
+
+// Volumes
+route("GET", "/volumes", () => [...volumes.values()]);
+route("POST", "/volumes", ({ body }) => {
+  if ([...volumes.values()].some(volume => volume.name === body.name)) throw new ApiError(409, `Volume ${body.name} already exists`);
+  const volume = { id: randomUUID(), name: body.name, organizationId: ORGANIZATION_ID, state: "pending_create", errorReason: null, createdAt: now(), updatedAt: now(), lastUsedAt: null };
+  volumes.set(volume.id, volume);
+  transition(volume, "creating", "ready");
+  return volume;
+});
+route("GET", "/volumes/by-name/:name", ({ params }) => {
+  const volume = [...volumes.values()].find(candidate => candidate.name === params.name);
+  if (!volume) throw new ApiError(404, `Volume ${params.name} not found`);
+  return volume;
+});
+route("GET", "/volumes/:id", ({ params }) => find(volumes, "Volume", params.id));
+route("DELETE", "/volumes/:id", ({ params }) => {
+  const volume = find(volumes, "Volume", params.id);
+  transition(volume, "deleting", "deleted", () => volumes.delete(volume.id));
+});
+
+// Toolbox: processes and sessions
+const TOOLBOX = "/toolbox/:id/toolbox";
+
+// `sleep <seconds>` holds the response for that long, like a command that takes time
+route("POST", `${TOOLBOX}/process/execute`, async ({ params, body }) => {
+  runningSandbox(params.id);
+  await new Promise(resolve => setTimeout(resolve, sleepSeconds(body.command) * 1000));
+  return runCommand(params.id, body.command, body.cwd);
+});
+
+const sandboxSessions = sandboxId => {
+  if (!sessions.has(sandboxId)) sessions.set(sandboxId, new Map());
+  return sessions.get(sandboxId);
+};
+const findSession = (sandboxId, sessionId) => {
+  const session = sandboxSessions(sandboxId).get(sessionId);
+  if (!session) throw new ApiError(404, `Session ${sessionId} not found`);
+  return session;
+};
+const findCommand = (session, commandId) => {
+  const command = session.commands.find(candidate => candidate.id === commandId);
+  if (!command) throw new ApiError(404, `Command ${commandId} not found`);
+  return command;
+};
+const publicCommand = ({ output, ...command }) => command;
+
+route("GET", `${TOOLBOX}/process/session`, ({ params }) => {
+  runningSandbox(params.id);
+  return [...sandboxSessions(params.id).values()].map(session => ({ ...session, commands: session.commands.map(publicCommand) }));
+});
+route("POST", `${TOOLBOX}/process/session`, ({ params, body }) => {
+  runningSandbox(params.id);
+  if (sandboxSessions(params.id).has(body.sessionId)) throw new ApiError(409, `Session ${body.sessionId} already exists`);
+  sandboxSessions(params.id).set(body.sessionId, { sessionId: body.sessionId, commands: [] });
+});
+route("GET", `${TOOLBOX}/process/session/:sessionId`, ({ params }) => {
+  const session = findSession(params.id, params.sessionId);
+  return { ...session, commands: session.commands.map(publicCommand) };
+});
+route("DELETE", `${TOOLBOX}/process/session/:sessionId`, ({ params }) => {
+  findSession(params.id, params.sessionId);
+  sandboxSessions(params.id).delete(params.sessionId);
+});
+route("POST", `${TOOLBOX}/process/session/:sessionId/exec`, ({ params, body }) => {
+  const session = findSession(params.id, params.sessionId);
+  const { exitCode, result } = runCommand(params.id, body.command);
+  const command = { id: randomUUID(), command: body.command, exitCode: null, output: result };
+
+  // Commands starting with `sleep <seconds>` keep running for that long, and
+  // kernel loops until their session is deleted
+  const duration = sleepSeconds(body.command) * 1000;
+  session.commands.push(command);
+  if (body.runAsync && body.command.includes("/.mcp-kernels/")) {
+    return { cmdId: command.id };
+  }
+  if (duration && body.runAsync) {
+    setTimeout(() => { command.exitCode = exitCode; }, duration);
+    return { cmdId: command.id };
+  }
+  command.exitCode = exitCode;
+  return body.runAsync ? { cmdId: command.id } : { cmdId: command.id, output: result, exitCode };
+});
+route("GET", `${TOOLBOX}/process/session/:sessionId/command/:commandId`, ({ params }) =>
+  publicCommand(findCommand(findSession(params.id, params.sessionId), params.commandId))
+);
+route("GET", `${TOOLBOX}/process/session/:sessionId/command/:commandId/logs`, ({ params, query }) => {
+  const command = findCommand(findSession(params.id, params.sessionId), params.commandId);
+  if (query.get("follow") !== "true") return { text: command.output };
+
+  return {
+    stream: async response => {
+      response.write(commandLogs(command.output));
+      while (command.exitCode === null && !response.destroyed) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      response.end();
+    }
+  };
+});
+
+// Toolbox: files
+route("GET", `${TOOLBOX}/files`, ({ params, query }) => {
+  runningSandbox(params.id);
+  const dir = absolute(query.get("path"));
+  return [...sandboxFiles(params.id)].filter(([path]) => posix.dirname(path) === dir && path !== dir).map(([path, file]) => fileInfo(path, file));
+});
+route("DELETE", `${TOOLBOX}/files`, ({ params, query }) => {
+  const path = absolute(query.get("path"));
+  const entries = sandboxFiles(params.id);
+  if (!entries.has(path)) throw new ApiError(404, `${path} not found`);
+  [...entries.keys()].filter(candidate => candidate === path || candidate.startsWith(`${path}/`)).forEach(candidate => entries.delete(candidate));
+});
+route("GET", `${TOOLBOX}/files/info`, ({ params, query }) => {
+  const path = absolute(query.get("path"));
+  const file = sandboxFiles(params.id).get(path);
+  if (!file) throw new ApiError(404, `${path} not found`);
+  return fileInfo(path, file);
+});
+route("GET", `${TOOLBOX}/files/download`, ({ params, query, headers }) => {
+  const path = absolute(query.get("path"));
+  const file = sandboxFiles(params.id).get(path);
+  if (!file || file.isDir) throw new ApiError(404, `${path} not found`);
+  // Byte ranges are served like http.ServeContent does for the toolbox
+  const range = /^bytes=(\d+)-(\d*)$/.exec(headers.range ?? "");
+  if (!range) return { raw: file.content };
+  const size = file.content.length;
+  const start = Number(range[1]);
+  if (start >= size) return { raw: Buffer.alloc(0), status: 416, headers: { "Content-Range": `bytes */${size}` } };
+  const end = Math.min(range[2] ? Number(range[2]) : size - 1, size - 1);
+  return { raw: file.content.subarray(start, end + 1), status: 206, headers: { "Content-Range": `bytes ${start}-${end}/${size}` } };
+});
+route("POST", `${TOOLBOX}/files/upload`, ({ params, query, rawBody, headers }) => {
+  runningSandbox(params.id);
+  writeFile(params.id, absolute(query.get("path")), multipartFile(rawBody, headers["content-type"] ?? ""));
+});
+route("POST", `${TOOLBOX}/files/folder`, ({ params, query }) => {
+  sandboxFiles(params.id).set(absolute(query.get("path")), { isDir: true, mode: query.get("mode") ?? "0755", modTime: now() });
+});
+route("POST", `${TOOLBOX}/files/move`, ({ params, query }) => {
+  const entries = sandboxFiles(params.id);
+  const source = absolute(query.get("source"));
+  const destination = absolute(query.get("destination"));
+  if (!entries.has(source)) throw new ApiError(404, `${source} not found`);
+  for (const [path, file] of [...entries]) {
+    if (path === source || path.startsWith(`${source}/`)) {
+      entries.delete(path);
+      entries.set(destination + path.slice(source.length), file);
+    }
+  }
+});
+route("POST", `${TOOLBOX}/files/permissions`, ({ params, query }) => {
+  const file = sandboxFiles(params.id).get(absolute(query.get("path")));
+  if (!file) throw new ApiError(404, `${query.get("path")} not found`);
+  if (query.get("mode")) file.mode = query.get("mode");
+});
+route("GET", `${TOOLBOX}/files/search`, ({ params, query }) => {
+  const dir = absolute(query.get("path"));
+  const pattern = new RegExp(`^${(query.get("pattern") ?? "*").replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+  return { files: [...sandboxFiles(params.id).keys()].filter(path => path.startsWith(`${dir}/`) && pattern.test(posix.basename(path))) };
+});
+route("GET", `${TOOLBOX}/files/find`, ({ params, query }) => {
+  const dir = absolute(query.get("path"));
+  const pattern = query.get("pattern") ?? "";
+  return [...sandboxFiles(params.id)]
+    .filter(([path, file]) => !file.isDir && path.startsWith(`${dir}/`))
+    .flatMap(([path, file]) => file.content.toString().split("\n").flatMap((content, index) =>
+      content.includes(pattern) ? [{ file: path, line: index + 1, content }] : []
+    ));
+});
+route("POST", `${TOOLBOX}/files/replace`, ({ params, body }) => (body.files ?? []).map(path => {
+  const file = sandboxFiles(params.id).get(absolute(path));
+  if (!file || file.isDir) return { file: path, success: false, error: "not found" };
+  file.content = Buffer.from(file.content.toString().split(body.pattern).join(body.newValue));
+  return { file: path, success: true };
+}));
+
+// Toolbox: git. Cloning creates a README so the repository has something to read.
+// Repositories named `missing` fail to clone, with the URL in the message like git's
+route("POST", `${TOOLBOX}/git/clone`, ({ params, body }) => {
+  runningSandbox(params.id);
+  if (posix.basename(body.url, ".git") === "missing") {
+    throw new ApiError(400, `fatal: repository '${body.url}' not found`);
+  }
+  writeFile(params.id, posix.join(absolute(body.path), "README.md"), `# ${posix.basename(body.url, ".git")}\n`);
+});
+route("GET", `${TOOLBOX}/git/status`, () => ({ currentBranch: "main", ahead: 0, behind: 0, branchPublished: true, fileStatus: [] }));
+route("GET", `${TOOLBOX}/git/branches`, () => ({ branches: ["main"] }));
+route("GET", `${TOOLBOX}/git/history`, () => []);
+for (const action of ["add", "branches", "checkout", "pull", "push"]) {
+  route("POST", `${TOOLBOX}/git/${action}`, () => undefined);
+}
+route("POST", `${TOOLBOX}/git/commit`, () => ({ hash: randomBytes(20).toString("hex") }));
+
+// Toolbox: language servers answer with empty results
+for (const action of ["start", "stop", "did-open", "did-close"]) {
+  route("POST", `${TOOLBOX}/lsp/${action}`, () => undefined);
+}
+route("POST", `${TOOLBOX}/lsp/completions`, () => ({ isIncomplete: false, items: [] }));
+route("GET", `${TOOLBOX}/lsp/document-symbols`, () => []);
+route("GET", `${TOOLBOX}/lsp/workspacesymbols`, () => []);
+
+// ==================== SERVER ====================
+
+// Start times of the last second's requests, per API key
+const requestTimes = new Map();
+
+const throttle = authorization => {
+  if (RATE_LIMIT) {
+    const since = Date.now() - 1000;
+    const times = (requestTimes.get(authorization) ?? []).filter(time => time > since);
+    requestTimes.set(authorization, times);
+    if (times.length >= RATE_LIMIT) {
+      throw new ApiError(429, "Too many requests", { "Retry-After": "1" });
+    }
+    times.push(Date.now());
+  }
+  if (ERROR_RATE && Math.random() < ERROR_RATE) {
+    throw new ApiError(503, "Service unavailable");
+  }
+};
+
+const send = (response, status, body, headers = {}) => {
+  if (body === undefined) {
+    response.writeHead(status, headers).end();
+  } else if (body.raw) {
+    response.writeHead(status, { ...headers, "Content-Type": "application/octet-stream" }).end(body.raw);
+  } else if (body.text !== undefined) {
+    response.writeHead(status, { ...headers, "Content-Type": "text/plain" }).end(body.text);
+  } else {
+    response.writeHead(status, { ...headers, "Content-Type": "application/json" }).end(JSON.stringify(body));
+  }
+};
+
+const server = createServer(async (request, response) => {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  const rawBody = Buffer.concat(chunks);
+  const url = new URL(request.url ?? "/", `http://localhost:${PORT}`);
+
+  try {
+    if (!url.pathname.startsWith("/preview/") && !url.pathname.startsWith("/object-storage/") && !request.headers.authorization?.startsWith("Bearer ")) {
+      throw new ApiError(401, "Unauthorized");
+    }
+    if (request.headers.authorization?.startsWith("Bearer invalid")) {
+      throw new ApiError(401, "Invalid API key");
+    }
+    throttle(request.headers.authorization);
+
+    for (const { method, regexp, names, handler } of routes) {
+      const match = request.method === method && url.pathname.match(regexp);
+      if (!match) continue;
+
+      const params = Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+      const isJson = request.headers["content-type"]?.includes("application/json");
+      const body = isJson && rawBody.length ? JSON.parse(rawBody.toString()) : {};
+      const result = await handler({ params, query: url.searchParams, body, rawBody, headers: request.headers });
+
+      if (result?.stream) {
+        response.writeHead(200, { "Content-Type": "application/octet-stream" });
+        return await result.stream(response);
+      }
+      return send(response, result?.raw ? result.status ?? 200 : 200, result, result?.raw ? result.headers : undefined);
+    }
+    throw new ApiError(404, `Cannot ${request.method} ${url.pathname}`);
+  } catch (error) {
+    const status = error instanceof ApiError ? error.status : 500;
+    send(response, status, { statusCode: status, message: error.message }, error.headers);
+  } finally {
+    console.log(request.method, url.pathname + url.search, response.statusCode);
+  }
+});
+server.listen(PORT, () => console.log(`Fake Daytona API listening on ${origin()}`));
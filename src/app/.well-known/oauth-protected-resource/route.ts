@@ -0,0 +1,24 @@
+import { oauthEnabled, protectedResourceMetadata } from "@/lib/auth";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+export async function GET(request: Request) {
+  if (!oauthEnabled) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return Response.json(protectedResourceMetadata(new URL(request.url).origin), {
+    headers: corsHeaders,
+  });
+}
@@ -0,0 +1,222 @@
+import { readFileSync } from "fs";
+import { createLocalJWKSet, createRemoteJWKSet, jwtVerify, JWTPayload, JWTVerifyGetKey } from "jose";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { verifyDaytonaToken } from "@/lib/daytona";
+import { interceptTools, McpServer } from "@/lib/interceptors";
+import { toolError } from "@/lib/responses";
+
+// ==================== OAUTH CONFIGURATION ====================
+
+const issuer = process.env.OAUTH_ISSUER;
+
+// OAuth is enabled by configuring the authorization server that issues access
+// tokens for this MCP server. Without it, bearer tokens are Daytona API keys.
+export const oauthEnabled = Boolean(issuer);
+
+export const resourceMetadataPath = "/.well-known/oauth-protected-resource";
+
+// Canonical URI of this MCP server, used as the expected token audience
+export const resourceUrl = (origin: string) => process.env.OAUTH_RESOURCE_URL || `${origin}/mcp`;
+
+// ==================== SCOPES ====================
+
+export const SCOPES = {
+  "sandboxes:read": "Read sandboxes, snapshots, volumes, sessions and sandbox files",
+  "sandboxes:write": "Create, change and delete sandboxes, snapshots and volumes, and run commands in sandboxes",
+  "org:read": "Read organizations, members, roles, usage and API keys",
+  "org:admin": "Manage organizations, members, roles, quotas and API keys"
+} as const;
+
+export type Scope = keyof typeof SCOPES;
+
+// A broader scope grants the narrower one of the same group
+const IMPLIED_BY: Partial<Record<Scope, Scope>> = {
+  "sandboxes:read": "sandboxes:write",
+  "org:read": "org:admin"
+};
+
+const ORG_READ_TOOLS = [
+  "listOrganizations",
+  "getOrganization",
+  "getOrganizationUsage",
+  "listOrganizationMembers",
+  "listOrganizationRoles",
+  "listApiKeys",
+  "getApiKey",
+  "getCurrentApiKey"
+];
+
+const ORG_ADMIN_TOOLS = [
+  "createOrganization",
+  "deleteOrganization",
+  "updateOrganizationQuota",
+  "updateMemberRole",
+  "deleteOrganizationMember",
+  "createOrganizationRole",
+  "createApiKey",
+  "deleteApiKey"
+];
+
+const SANDBOX_READ_TOOLS = [
+  "listSandboxes",
+  "getSandbox",
+  "waitForSandboxState",
+  "getPreviewUrl",
+  "waitForPort",
+  "listTemplates",
+  "listMyResources",
+  "listSnapshots",
+  "getSnapshot",
+  "waitForSnapshotState",
+  "getSnapshotBuildLogs",
+  "listVolumes",
+  "getVolume",
+  "getVolumeByName",
+  "waitForVolumeState",
+  "listSessions",
+  "getSession",
+  "getSessionCommand",
+  "getSessionCommandLogs",
+  "listFiles",
+  "getFileInfo",
+  "readFile",
+  "downloadFile",
+  "searchFiles",
+  "findInFiles",
+  "gitStatus",
+  "gitListBranches",
+  "gitLog",
+  "lspCompletions",
+  "lspDocumentSymbols",
+  "lspWorkspaceSymbols",
+  "lspDefinition",
+  "lspReferences"
+];
+
+// Tools of plugins named like these only read, as the tools listed above do
+const READ_TOOL_NAME = /^(list|get|waitFor)[A-Z]/;
+
+// Scope a tool requires. Other tools change sandbox state, so anything new
+// that is not named like a read defaults to the sandbox write scope.
+export const toolScope = (toolName: string): Scope => {
+  if (ORG_ADMIN_TOOLS.includes(toolName)) return "org:admin";
+  if (ORG_READ_TOOLS.includes(toolName)) return "org:read";
+  if (SANDBOX_READ_TOOLS.includes(toolName) || READ_TOOL_NAME.test(toolName)) return "sandboxes:read";
+  return "sandboxes:write";
+};
+
+export const hasScope = (scopes: string[], scope: Scope) => {
+  const impliedBy = IMPLIED_BY[scope];
+  return scopes.includes(scope) || (impliedBy !== undefined && scopes.includes(impliedBy));
+};
+
+// ==================== TOKEN VERIFICATION ====================
+
+export type TokenVerifier = (req: Request, bearerToken?: string) => Promise<AuthInfo | undefined>;
+
+// Access token scopes, from a space separated `scope` claim or an `scp` array
+const tokenScopes = (payload: JWTPayload) => {
+  if (typeof payload.scope === "string") return payload.scope.split(" ").filter(Boolean);
+  if (Array.isArray(payload.scp)) return payload.scp.filter((scope): scope is string => typeof scope === "string");
+  return [];
+};
+
+// Verifies JWT access tokens against a key set. The Daytona API key for the
+// request comes from the `daytona_api_key` claim, or else the server's key.
+export const createJwtVerifier = ({ jwks, issuer, audience }: {
+  jwks: JWTVerifyGetKey;
+  issuer: string;
+  audience?: string;
+}): TokenVerifier => {
+  return async (req, bearerToken) => {
+    if (!bearerToken) {
+      return undefined;
+    }
+
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(bearerToken, jwks, {
+        issuer,
+        audience: audience || resourceUrl(new URL(req.url).origin)
+      }));
+    } catch (error) {
+      throw new InvalidTokenError(`Invalid access token: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const daytonaApiKey = typeof payload.daytona_api_key === "string" ? payload.daytona_api_key : process.env.DAYTONA_API_KEY;
+
+    return {
+      token: bearerToken,
+      clientId: String(payload.client_id ?? payload.azp ?? payload.sub ?? "unknown"),
+      scopes: tokenScopes(payload),
+      expiresAt: payload.exp,
+      extra: {
+        subject: payload.sub,
+        daytonaApiKey
+      }
+    };
+  };
+};
+
+// Key set of the authorization server, from a local JWKS file (handy for tests
+// and air-gapped setups) or the JWKS URL, which defaults to the issuer's
+const loadJwks = (): JWTVerifyGetKey => {
+  if (process.env.OAUTH_JWKS_FILE) {
+    return createLocalJWKSet(JSON.parse(readFileSync(process.env.OAUTH_JWKS_FILE, "utf-8")));
+  }
+  return createRemoteJWKSet(new URL(process.env.OAUTH_JWKS_URL || `${issuer?.replace(/\/$/, "")}/.well-known/jwks.json`));
+};
+
+let jwtVerifier: TokenVerifier | undefined;
+
+// Token verifier for the MCP route, OAuth access tokens when OAuth is enabled
+// and Daytona API keys otherwise
+export const verifyToken: TokenVerifier = async (req, bearerToken) => {
+  if (!oauthEnabled) {
+    return verifyDaytonaToken(req, bearerToken);
+  }
+
+  if (!jwtVerifier) {
+    jwtVerifier = createJwtVerifier({
+      jwks: loadJwks(),
+      issuer: issuer!,
+      audience: process.env.OAUTH_AUDIENCE
+    });
+  }
+  return jwtVerifier(req, bearerToken);
+};
+
+// ==================== PROTECTED RESOURCE METADATA ====================
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728) served at resourceMetadataPath
+export const protectedResourceMetadata = (origin: string) => {
+  return {
+    resource: resourceUrl(origin),
+    authorization_servers: [issuer],
+    scopes_supported: Object.keys(SCOPES),
+    bearer_methods_supported: ["header"],
+    resource_name: "Daytona MCP Server"
+  };
+};
+
+// ==================== TOOL SCOPE ENFORCEMENT ====================
+
+// Checks the access token scopes before every tool registered on the server.
+// Has no effect unless OAuth is enabled.
+export const enforceToolScopes = (server: McpServer) => {
+  if (!oauthEnabled) {
+    return;
+  }
+
+  interceptTools(server, {
+    wrapCallback: (toolName, callback) => (args, extra) => {
+      const scope = toolScope(toolName);
+
+      if (!hasScope(extra?.authInfo?.scopes ?? [], scope)) {
+        return toolError("INSUFFICIENT_SCOPE", `Tool ${toolName} requires the ${scope} scope`, 403);
+      }
+      return callback(args, extra);
+    }
+  });
+};
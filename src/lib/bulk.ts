@@ -0,0 +1,146 @@
+import { AxiosInstance } from "axios";
+import { ProgressExtra, sendProgress } from "@/lib/progress";
+
+// ==================== BULK SANDBOX OPERATIONS ====================
+
+export const BULK_ACTIONS = {
+  start: {
+    toolName: "bulkStartSandboxes",
+    verb: "Start",
+    past: "started",
+    // States in which a sandbox needs no action
+    skipStates: ["started"],
+    run: (client: AxiosInstance, sandboxId: string, options: BulkRequestOptions) =>
+      client.post(`/sandbox/${sandboxId}/start`, {}, options)
+  },
+  stop: {
+    toolName: "bulkStopSandboxes",
+    verb: "Stop",
+    past: "stopped",
+    skipStates: ["stopped", "archived"],
+    run: (client: AxiosInstance, sandboxId: string, options: BulkRequestOptions) =>
+      client.post(`/sandbox/${sandboxId}/stop`, {}, options)
+  },
+  archive: {
+    toolName: "bulkArchiveSandboxes",
+    verb: "Archive",
+    past: "archived",
+    skipStates: ["archived"],
+    run: (client: AxiosInstance, sandboxId: string, options: BulkRequestOptions) =>
+      client.post(`/sandbox/${sandboxId}/archive`, {}, options)
+  },
+  delete: {
+    toolName: "bulkDeleteSandboxes",
+    verb: "Delete",
+    past: "deleted",
+    skipStates: ["destroyed", "destroying"],
+    run: (client: AxiosInstance, sandboxId: string, options: BulkRequestOptions) =>
+      client.delete(`/sandbox/${sandboxId}`, options)
+  }
+} as const;
+
+export type BulkAction = keyof typeof BULK_ACTIONS;
+
+export const BULK_TOOLS: string[] = Object.values(BULK_ACTIONS).map(action => action.toolName);
+
+export const DEFAULT_BULK_CONCURRENCY = 5;
+export const MAX_BULK_CONCURRENCY = 20;
+
+interface BulkRequestOptions {
+  headers: Record<string, string>;
+  params?: Record<string, any>;
+  signal: AbortSignal;
+}
+
+export interface BulkSelector {
+  sandboxIds?: string[];
+  // JSON encoded label filter, as taken by listSandboxes
+  labels?: string;
+  state?: string[];
+}
+
+export type BulkStatus = "succeeded" | "failed" | "skipped" | "planned" | "cancelled";
+
+export interface BulkResult {
+  sandboxId: string;
+  state?: string;
+  status: BulkStatus;
+  error?: string;
+}
+
+// Sandboxes a selector matches. Listed IDs that are not found, or do not match
+// the labels and states of the selector, are returned as missing.
+export const selectSandboxes = async (client: AxiosInstance, selector: BulkSelector, headers: Record<string, string>) => {
+  const response = await client.get("/sandbox", {
+    params: selector.labels ? { labels: selector.labels } : {},
+    headers
+  });
+
+  const matching = (response.data as any[]).filter(sandbox =>
+    (!selector.sandboxIds || selector.sandboxIds.includes(sandbox.id)) &&
+    (!selector.state?.length || selector.state.includes(sandbox.state))
+  );
+  const found = new Set(matching.map(sandbox => sandbox.id));
+  const missing = (selector.sandboxIds ?? []).filter(sandboxId => !found.has(sandboxId));
+
+  return { sandboxes: matching, missing: [...new Set(missing)] };
+};
+
+const errorMessage = (error: any) => error.response
+  ? `${error.response.status} - ${error.response.data?.message || JSON.stringify(error.response.data)}`
+  : error.message;
+
+// Runs an action on the selected sandboxes with at most `concurrency` requests
+// at a time, reporting each finished sandbox as progress. Sandboxes not started
+// before the call is cancelled are reported as cancelled.
+export const runBulkAction = async (
+  client: AxiosInstance,
+  action: BulkAction,
+  sandboxes: { id: string; state?: string }[],
+  options: { concurrency: number; force?: boolean; headers: Record<string, string>; extra: ProgressExtra }
+) => {
+  const { run, skipStates } = BULK_ACTIONS[action];
+  const results: BulkResult[] = new Array(sandboxes.length);
+  let next = 0;
+  let finished = 0;
+
+  const worker = async () => {
+    while (next < sandboxes.length) {
+      const index = next++;
+      const { id, state } = sandboxes[index];
+
+      if (options.extra.signal.aborted) {
+        results[index] = { sandboxId: id, state, status: "cancelled" };
+        continue;
+      }
+
+      if (state && (skipStates as readonly string[]).includes(state)) {
+        results[index] = { sandboxId: id, state, status: "skipped" };
+      } else {
+        try {
+          await run(client, id, {
+            headers: options.headers,
+            params: action === "delete" && options.force ? { force: true } : undefined,
+            signal: options.extra.signal
+          });
+          results[index] = { sandboxId: id, state, status: "succeeded" };
+        } catch (error: any) {
+          const cancelled = error?.code === "ERR_CANCELED";
+          results[index] = { sandboxId: id, state, status: cancelled ? "cancelled" : "failed", error: cancelled ? undefined : errorMessage(error) };
+        }
+      }
+
+      finished++;
+      await sendProgress(options.extra, finished, `${id}: ${results[index].status}`, sandboxes.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, sandboxes.length) }, worker));
+  return results;
+};
+
+export const countResults = (results: BulkResult[]) => {
+  const counts: Record<BulkStatus, number> = { succeeded: 0, failed: 0, skipped: 0, planned: 0, cancelled: 0 };
+  results.forEach(result => counts[result.status]++);
+  return counts;
+};
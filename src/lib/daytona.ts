@@ -0,0 +1,64 @@
+import axios, { AxiosInstance } from "axios";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { makeResilient, REQUEST_TIMEOUT_MS } from "@/lib/resilience";
+
+const baseURL = process.env.DAYTONA_API_URL || "https://app.daytona.io/api";
+
+// When set, MCP requests without a Daytona token are rejected instead of
+// falling back to the server's DAYTONA_API_KEY
+export const requireAuth = process.env.DAYTONA_REQUIRE_AUTH === "true";
+
+const createClient = (apiKey?: string) => makeResilient(axios.create({
+  baseURL,
+  timeout: REQUEST_TIMEOUT_MS,
+  headers: {
+    "Authorization": `Bearer ${apiKey}`,
+    "Content-Type": "application/json",
+  },
+}), apiKey);
+
+const defaultClient = createClient(process.env.DAYTONA_API_KEY);
+const requestClients = new WeakMap<AuthInfo, AxiosInstance>();
+
+// The Daytona token of an MCP request. An auth provider can map its own access
+// token to a Daytona API key through `extra.daytonaApiKey`, otherwise the
+// bearer token itself is the Daytona API key.
+export const daytonaApiKey = (authInfo?: AuthInfo) => {
+  if (authInfo?.extra && "daytonaApiKey" in authInfo.extra) {
+    const apiKey = authInfo.extra.daytonaApiKey;
+    return typeof apiKey === "string" ? apiKey : undefined;
+  }
+  return authInfo?.token;
+};
+
+// Daytona API client for the credentials of the current MCP request
+export const daytonaClient = (authInfo?: AuthInfo): AxiosInstance => {
+  const apiKey = daytonaApiKey(authInfo);
+  if (!authInfo || !apiKey) {
+    if (requireAuth) {
+      throw new Error("No Daytona API key provided, send one as a bearer token");
+    }
+    return defaultClient;
+  }
+
+  let client = requestClients.get(authInfo);
+  if (!client) {
+    client = createClient(apiKey);
+    requestClients.set(authInfo, client);
+  }
+  return client;
+};
+
+// Token verifier for the MCP route. Any bearer token is accepted as a Daytona
+// API key, invalid keys are rejected by the Daytona API on first use.
+export const verifyDaytonaToken = async (_req: Request, bearerToken?: string): Promise<AuthInfo | undefined> => {
+  if (!bearerToken) {
+    return undefined;
+  }
+
+  return {
+    token: bearerToken,
+    clientId: "daytona-api-key",
+    scopes: []
+  };
+};
@@ -0,0 +1,120 @@
+import axios, { AxiosInstance } from "axios";
+import { createHash, createHmac } from "crypto";
+import { z } from "zod";
+
+// ==================== BUILD SPECS ====================
+
+export const BuildSpecSchema = z.object({
+  baseImage: z.string({
+    description: "The image to build on, e.g. python:3.12-slim"
+  }),
+  aptPackages: z.array(z.string(), {
+    description: "Debian packages to install with apt-get"
+  }).optional(),
+  pipPackages: z.array(z.string(), {
+    description: "Python packages to install with pip, e.g. numpy>=2"
+  }).optional(),
+  npmPackages: z.array(z.string(), {
+    description: "Node.js packages to install globally with npm"
+  }).optional(),
+  env: z.record(z.string(), {
+    description: "Environment variables of the image"
+  }).optional(),
+  run: z.array(z.string(), {
+    description: "Additional shell commands run after the packages are installed"
+  }).optional(),
+  workdir: z.string({
+    description: "Working directory of the image"
+  }).optional()
+}).strict();
+
+export type BuildSpec = z.infer<typeof BuildSpecSchema>;
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Dockerfile for a build spec. Package names are quoted, so version specifiers
+// such as numpy>=2 reach the package manager unchanged.
+export const dockerfileFromSpec = (spec: BuildSpec) => {
+  const lines = [`FROM ${spec.baseImage}`];
+
+  Object.entries(spec.env ?? {}).forEach(([key, value]) => lines.push(`ENV ${key}=${JSON.stringify(value)}`));
+  if (spec.aptPackages?.length) {
+    lines.push(`RUN apt-get update && apt-get install -y --no-install-recommends ${spec.aptPackages.map(shellQuote).join(" ")} && rm -rf /var/lib/apt/lists/*`);
+  }
+  if (spec.pipPackages?.length) {
+    lines.push(`RUN pip install --no-cache-dir ${spec.pipPackages.map(shellQuote).join(" ")}`);
+  }
+  if (spec.npmPackages?.length) {
+    lines.push(`RUN npm install -g ${spec.npmPackages.map(shellQuote).join(" ")}`);
+  }
+  spec.run?.forEach(command => lines.push(`RUN ${command}`));
+  if (spec.workdir) {
+    lines.push(`WORKDIR ${spec.workdir}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+// ==================== BUILD CONTEXTS ====================
+
+// Object storage of the organization that Daytona builds read contexts from
+interface PushAccess {
+  accessKey: string;
+  secret: string;
+  sessionToken: string;
+  storageUrl: string;
+  organizationId: string;
+  bucket: string;
+}
+
+const STORAGE_REGION = "us-east-1";
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+// AWS Signature Version 4 headers for a path-style S3 PUT
+const signedPutHeaders = (access: PushAccess, url: URL, body: Buffer, now = new Date()) => {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const date = amzDate.slice(0, 8);
+  const payloadHash = sha256(body);
+
+  const headers: Record<string, string> = {
+    "host": url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    "x-amz-security-token": access.sessionToken
+  };
+  const signedHeaders = Object.keys(headers).sort().join(";");
+  const canonicalHeaders = Object.keys(headers).sort().map(name => `${name}:${headers[name]}\n`).join("");
+  const canonicalRequest = ["PUT", url.pathname, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+
+  const scope = `${date}/${STORAGE_REGION}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce<Buffer>(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${access.secret}`, date), STORAGE_REGION)
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  const { host, ...requestHeaders } = headers;
+  return {
+    ...requestHeaders,
+    "Authorization": `AWS4-HMAC-SHA256 Credential=${access.accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+};
+
+// Uploads a tar archive of build context files to the organization's object
+// storage and returns its hash, which builds reference in `contextHashes`.
+// The archive is stored by content hash, so unchanged contexts are reused.
+export const uploadBuildContext = async (client: AxiosInstance, archive: Buffer, headers: Record<string, string>) => {
+  const { data: access } = await client.get<PushAccess>("/object-storage/push-access", { headers });
+  const hash = sha256(archive);
+
+  const url = new URL(`${access.storageUrl.replace(/\/$/, "")}/${access.bucket}/${access.organizationId}/${hash}/context.tar`);
+  await axios.put(url.toString(), archive, {
+    headers: signedPutHeaders(access, url, archive),
+    maxBodyLength: Infinity
+  });
+
+  return hash;
+};
@@ -0,0 +1,48 @@
+import { ZodRawShape, ZodType } from "zod";
+import type { createMcpHandler } from "@vercel/mcp-adapter";
+
+// The server type the adapter hands to the initializer, which resolves to the
+// SDK's CommonJS typings
+export type McpServer = Parameters<Parameters<typeof createMcpHandler>[0]>[0];
+
+export type ToolCallback = (...args: any[]) => any;
+
+// Hooks applied to every tool registered after interceptTools is called
+export interface ToolInterceptor {
+  // Extra input parameters for a tool, merged into its input schema
+  extendInputSchema?: (toolName: string) => ZodRawShape | undefined;
+  // Wraps the tool callback, which receives (args, extra)
+  wrapCallback: (toolName: string, callback: ToolCallback) => ToolCallback;
+}
+
+const isZodRawShape = (value: unknown): value is ZodRawShape =>
+  typeof value === "object" && value !== null && !Array.isArray(value) &&
+  Object.values(value).some(field => field instanceof ZodType);
+
+// Patches the server's tool registration so the interceptor sees every tool.
+// Interceptors installed earlier run first.
+export const interceptTools = (server: McpServer, interceptor: ToolInterceptor) => {
+  // Tools registered without an input schema get no arguments, so they are left as is
+  const extend = (toolName: string, inputSchema?: ZodRawShape) => {
+    const extension = interceptor.extendInputSchema?.(toolName);
+    return extension && inputSchema ? { ...inputSchema, ...extension } : inputSchema;
+  };
+
+  const registerTool = server.registerTool.bind(server);
+  server.registerTool = ((name: string, config: any, callback: ToolCallback) =>
+    registerTool(
+      name,
+      { ...config, inputSchema: extend(name, config.inputSchema) },
+      interceptor.wrapCallback(name, callback)
+    )) as McpServer["registerTool"];
+
+  const tool = server.tool.bind(server) as (...args: any[]) => ReturnType<McpServer["tool"]>;
+  server.tool = ((name: string, ...rest: any[]) => {
+    const callback = rest.pop();
+    const schemaIndex = rest.findIndex(isZodRawShape);
+    if (schemaIndex !== -1) {
+      rest[schemaIndex] = extend(name, rest[schemaIndex]);
+    }
+    return tool(name, ...rest, interceptor.wrapCallback(name, callback));
+  }) as McpServer["tool"];
+};
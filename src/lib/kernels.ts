@@ -0,0 +1,261 @@
+import { AxiosInstance } from "axios";
+import { randomUUID } from "crypto";
+import { commandTimeout } from "@/lib/resilience";
+
+// ==================== CODE INTERPRETER KERNELS ====================
+//
+// A kernel is a small interpreter loop that runs as an async command in its own
+// sandbox session, so its variables persist between calls. Code is handed over
+// through files: the server uploads `<id>.code`, renames it to `<id>.request`
+// once complete, and waits for the kernel to write `<id>.response`.
+
+export const KERNEL_LANGUAGES = ["python", "javascript"] as const;
+
+export type KernelLanguage = typeof KERNEL_LANGUAGES[number];
+
+export interface KernelResult {
+  stdout: string;
+  stderr: string;
+  result: string | null;
+  exception: string | null;
+  artifacts: { mimeType: string; data: string }[];
+}
+
+const PYTHON_KERNEL = String.raw`import ast, base64, contextlib, io, json, os, sys, time, traceback
+
+os.environ.setdefault("MPLBACKEND", "Agg")
+directory = sys.argv[1]
+namespace = {"__name__": "__main__"}
+
+
+def figures():
+    plt = sys.modules.get("matplotlib.pyplot")
+    if plt is None:
+        return []
+    images = []
+    for number in plt.get_fignums():
+        buffer = io.BytesIO()
+        plt.figure(number).savefig(buffer, format="png", bbox_inches="tight")
+        images.append({"mimeType": "image/png", "data": base64.b64encode(buffer.getvalue()).decode()})
+    plt.close("all")
+    return images
+
+
+def run(code):
+    stdout, stderr = io.StringIO(), io.StringIO()
+    result, exception = None, None
+    try:
+        tree = ast.parse(code, "<cell>", "exec")
+        last = tree.body.pop() if tree.body and isinstance(tree.body[-1], ast.Expr) else None
+        with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stderr):
+            exec(compile(tree, "<cell>", "exec"), namespace)
+            if last is not None:
+                value = eval(compile(ast.Expression(last.value), "<cell>", "eval"), namespace)
+                if value is not None:
+                    result = repr(value)
+    except BaseException:
+        kind, value, trace = sys.exc_info()
+        exception = "".join(traceback.format_exception(kind, value, trace.tb_next))
+    return {"stdout": stdout.getvalue(), "stderr": stderr.getvalue(), "result": result, "exception": exception, "artifacts": figures()}
+
+
+while True:
+    for name in sorted(os.listdir(directory)):
+        if not name.endswith(".request"):
+            continue
+        path = os.path.join(directory, name)
+        with open(path) as file:
+            code = file.read()
+        os.remove(path)
+        response = run(code)
+        target = path[:-len(".request")] + ".response"
+        with open(target + ".tmp", "w") as file:
+            json.dump(response, file)
+        os.rename(target + ".tmp", target)
+    time.sleep(0.05)
+`;
+
+const JAVASCRIPT_KERNEL = String.raw`const fs = require("fs");
+const path = require("path");
+const util = require("util");
+const vm = require("vm");
+
+const directory = process.argv[2];
+let stdout = "";
+let stderr = "";
+const write = stream => (...args) => {
+  const text = util.format(...args) + "\n";
+  if (stream === "stdout") stdout += text; else stderr += text;
+};
+
+const context = vm.createContext({
+  require,
+  process,
+  Buffer,
+  URL,
+  setTimeout,
+  clearTimeout,
+  setInterval,
+  clearInterval,
+  console: { log: write("stdout"), info: write("stdout"), debug: write("stdout"), warn: write("stderr"), error: write("stderr") }
+});
+
+const run = async code => {
+  stdout = "";
+  stderr = "";
+  let result = null;
+  let exception = null;
+  try {
+    let value = vm.runInContext(code, context, { filename: "<cell>" });
+    if (value && typeof value.then === "function") value = await value;
+    if (value !== undefined) result = util.inspect(value);
+  } catch (error) {
+    exception = error && error.stack ? error.stack : String(error);
+  }
+  return { stdout, stderr, result, exception, artifacts: [] };
+};
+
+const loop = async () => {
+  for (const name of fs.readdirSync(directory).sort()) {
+    if (!name.endsWith(".request")) continue;
+    const file = path.join(directory, name);
+    const code = fs.readFileSync(file, "utf-8");
+    fs.unlinkSync(file);
+    const response = await run(code);
+    const target = file.slice(0, -".request".length) + ".response";
+    fs.writeFileSync(target + ".tmp", JSON.stringify(response));
+    fs.renameSync(target + ".tmp", target);
+  }
+  setTimeout(loop, 50);
+};
+loop();
+`;
+
+const KERNELS: Record<KernelLanguage, { file: string; source: string; command: string }> = {
+  python: { file: "kernel.py", source: PYTHON_KERNEL, command: "python3 -u" },
+  javascript: { file: "kernel.js", source: JAVASCRIPT_KERNEL, command: "node" }
+};
+
+const kernelDirectory = (language: KernelLanguage) => `/tmp/.mcp-kernels/${language}`;
+
+// Exit codes of the command waiting for a response, when the kernel did not
+// answer in time or is no longer running
+const KERNEL_TIMED_OUT = 124;
+const KERNEL_EXITED = 125;
+// Seconds the toolbox gives the waiting command beyond its own deadline
+const KERNEL_WAIT_GRACE_SECONDS = 5;
+// Output of a failed request kept in its error
+const MAX_ERROR_OUTPUT_LENGTH = 2000;
+
+// A request the kernel did not answer, for another reason than a timeout
+export class KernelError extends Error {
+  constructor(message: string, readonly exitCode: number | undefined, readonly output: string) {
+    super(message);
+    this.name = "KernelError";
+  }
+}
+
+export const kernelSessionId = (language: KernelLanguage) => `mcp-kernel-${language}`;
+
+const uploadFile = (client: AxiosInstance, sandboxId: string, path: string, content: string, headers: Record<string, string>) => {
+  const formData = new FormData();
+  formData.append("file", new Blob([content]), path.split("/").pop() || "file");
+  return client.post(`/toolbox/${sandboxId}/toolbox/files/upload`, formData, {
+    params: { path },
+    headers: { ...headers, "Content-Type": "multipart/form-data" }
+  });
+};
+
+// Starts the kernel of a language unless it is already running. A kernel whose
+// command has exited is replaced by a fresh one.
+export const ensureKernel = async (client: AxiosInstance, sandboxId: string, language: KernelLanguage, headers: Record<string, string>) => {
+  const sessionUrl = `/toolbox/${sandboxId}/toolbox/process/session`;
+  const sessionId = kernelSessionId(language);
+
+  try {
+    const response = await client.get(`${sessionUrl}/${sessionId}`, { headers });
+    const kernelCommand = response.data.commands?.[0];
+    if (kernelCommand && (kernelCommand.exitCode === null || kernelCommand.exitCode === undefined)) {
+      return false;
+    }
+    await client.delete(`${sessionUrl}/${sessionId}`, { headers });
+  } catch (error: any) {
+    if (error.response?.status !== 404) throw error;
+  }
+
+  const { file, source, command } = KERNELS[language];
+  const directory = kernelDirectory(language);
+  await client.post(`/toolbox/${sandboxId}/toolbox/process/execute`, { command: `mkdir -p ${directory}` }, { headers });
+  await uploadFile(client, sandboxId, `${directory}/${file}`, source, headers);
+  await client.post(sessionUrl, { sessionId }, { headers });
+  // The kernel's PID is kept, so requests can tell a busy kernel from a dead one
+  await client.post(`${sessionUrl}/${sessionId}/exec`, {
+    command: `sh -c 'echo $$ > ${directory}/kernel.pid && exec ${command} ${directory}/${file} ${directory}'`,
+    runAsync: true
+  }, { headers });
+  return true;
+};
+
+// Runs code in the kernel and waits up to `timeout` seconds for its result.
+// Returns undefined if the kernel did not answer in time, and throws a
+// KernelError if the request failed otherwise.
+export const runInKernel = async (
+  client: AxiosInstance,
+  sandboxId: string,
+  language: KernelLanguage,
+  code: string,
+  timeout: number,
+  headers: Record<string, string>
+): Promise<KernelResult | undefined> => {
+  const base = `${kernelDirectory(language)}/${randomUUID()}`;
+  await uploadFile(client, sandboxId, `${base}.code`, code, headers);
+
+  const seconds = Math.ceil(timeout);
+  const pidFile = `${kernelDirectory(language)}/kernel.pid`;
+  // Waits for the response until the deadline, and gives up early once the
+  // kernel died. Kernels started without a PID file are taken to be alive.
+  const command = `sh -c 'mv ${base}.code ${base}.request && end=$(($(date +%s) + ${seconds})) && ` +
+    `while [ ! -f ${base}.response ]; do ` +
+    `[ ! -f ${pidFile} ] || kill -0 $(cat ${pidFile}) 2>/dev/null || exit ${KERNEL_EXITED}; ` +
+    `[ $(date +%s) -lt $end ] || exit ${KERNEL_TIMED_OUT}; sleep 0.1; ` +
+    `done && cat ${base}.response && rm -f ${base}.response'`;
+  const response = await client.post(`/toolbox/${sandboxId}/toolbox/process/execute`, {
+    command,
+    timeout: seconds + KERNEL_WAIT_GRACE_SECONDS
+  }, {
+    headers,
+    timeout: commandTimeout(seconds + KERNEL_WAIT_GRACE_SECONDS)
+  }).catch(error => {
+    // Toolbox and request timeouts only end the wait, the code keeps running
+    if (error.response?.status === 408 || error.code === "ECONNABORTED") return undefined;
+    throw error;
+  });
+
+  if (!response || response.data.exitCode === KERNEL_TIMED_OUT) {
+    return undefined;
+  }
+  const { exitCode } = response.data;
+  const output: string = response.data.result ?? "";
+  if (exitCode === KERNEL_EXITED) {
+    throw new KernelError(`The ${language} kernel is not running, call runCode again to start a new one`, exitCode, output.slice(-MAX_ERROR_OUTPUT_LENGTH));
+  }
+  if (exitCode !== 0) {
+    throw new KernelError(`Handing the code to the ${language} kernel failed with exit code ${exitCode}`, exitCode, output.slice(-MAX_ERROR_OUTPUT_LENGTH));
+  }
+  try {
+    return JSON.parse(output);
+  } catch {
+    throw new KernelError(`The ${language} kernel sent an invalid response`, exitCode, output.slice(-MAX_ERROR_OUTPUT_LENGTH));
+  }
+};
+
+// Stops the kernel of a language, dropping all of its state
+export const resetKernel = async (client: AxiosInstance, sandboxId: string, language: KernelLanguage, headers: Record<string, string>) => {
+  try {
+    await client.delete(`/toolbox/${sandboxId}/toolbox/process/session/${kernelSessionId(language)}`, { headers });
+    return true;
+  } catch (error: any) {
+    if (error.response?.status === 404) return false;
+    throw error;
+  }
+};
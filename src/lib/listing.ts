@@ -0,0 +1,159 @@
+import { z } from "zod";
+
+// ==================== LIST PARAMETERS ====================
+//
+// The Daytona API has few list filters, so lists are fetched whole and filtered,
+// sorted and paginated here. Large organizations get small pages and a marker
+// when more is available.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const SANDBOX_SORT_FIELDS = ["createdAt", "updatedAt", "state", "snapshot", "cpu", "memory", "disk"] as const;
+export const SANDBOX_COMPACT_FIELDS = ["state", "snapshot", "class", "cpu", "memory", "disk", "labels", "createdAt"] as const;
+export const SANDBOX_CLASSES = ["small", "medium", "large"] as const;
+
+export const SNAPSHOT_SORT_FIELDS = ["createdAt", "updatedAt", "name", "state", "size"] as const;
+export const SNAPSHOT_COMPACT_FIELDS = ["name", "state", "imageName", "size", "general", "createdAt"] as const;
+
+export const listParams = (sortFields: readonly [string, ...string[]], compactFields: readonly string[]) => ({
+  page: z.number({
+    description: "Page number, starting at 1"
+  }).int().min(1).optional(),
+  limit: z.number({
+    description: `Number of items per page. Default is ${DEFAULT_PAGE_SIZE}, at most ${MAX_PAGE_SIZE}`
+  }).int().min(1).max(MAX_PAGE_SIZE).optional(),
+  sortBy: z.enum(sortFields as [string, ...string[]], {
+    description: "Field to sort by. Without it the API order is kept"
+  }).optional(),
+  order: z.enum(["asc", "desc"], {
+    description: "Sort order. Default is asc"
+  }).optional(),
+  fields: z.array(z.string(), {
+    description: "Fields to return for each item; the ID is always included"
+  }).optional(),
+  format: z.enum(["json", "table"], {
+    description: `How to summarize the page. table renders a compact table of the fields, by default ${compactFields.join(", ")}`
+  }).optional()
+});
+
+const isoDate = () => z.string().datetime({ offset: true }).or(z.string().date());
+
+export const createdParams = {
+  createdAfter: isoDate().describe("Only include items created at or after this ISO 8601 date or time").optional(),
+  createdBefore: isoDate().describe("Only include items created before this ISO 8601 date or time").optional()
+};
+
+export const updatedParams = {
+  updatedBefore: isoDate().describe("Only include items last updated before this ISO 8601 date or time, e.g. to find unused ones").optional()
+};
+
+export interface ListOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  order?: "asc" | "desc";
+  fields?: string[];
+  format?: "json" | "table";
+}
+
+// ==================== FILTERING AND PAGINATION ====================
+
+// Page size used to fetch lists the API paginates
+const FETCH_PAGE_SIZE = 100;
+
+// Fetches every page of a paginated API list
+export const fetchAllPages = async <T>(fetchPage: (page: number, limit: number) => Promise<{ items: T[]; totalPages: number }>) => {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, FETCH_PAGE_SIZE);
+    items.push(...result.items);
+    if (page >= result.totalPages || !result.items.length) return items;
+  }
+};
+
+export const createdBetween = (item: { createdAt?: string | null }, after?: string, before?: string) => {
+  if (!after && !before) return true;
+  if (!item.createdAt) return false;
+
+  const created = Date.parse(item.createdAt);
+  return (!after || created >= Date.parse(after)) && (!before || created < Date.parse(before));
+};
+
+export const lastUpdatedBefore = (item: { updatedAt?: string | null }, before?: string) => {
+  if (!before) return true;
+  return Boolean(item.updatedAt) && Date.parse(item.updatedAt as string) < Date.parse(before);
+};
+
+// Numbers sort numerically, everything else as text. Missing values sort last
+// in either order.
+const compareValues = (a: unknown, b: unknown) => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const sortItems = <T extends Record<string, any>>(items: T[], sortBy: string, order: "asc" | "desc") => {
+  const direction = order === "desc" ? -1 : 1;
+  return [...items].sort((a, b) => {
+    const missingA = a[sortBy] === undefined || a[sortBy] === null;
+    const missingB = b[sortBy] === undefined || b[sortBy] === null;
+    if (missingA || missingB) return Number(missingA) - Number(missingB);
+    return direction * compareValues(a[sortBy], b[sortBy]);
+  });
+};
+
+const project = <T extends Record<string, any>>(item: T, fields: string[]) =>
+  Object.fromEntries(["id", ...fields.filter(field => field !== "id")].map(field => [field, item[field]]));
+
+// Sorts a filtered list and cuts out the requested page, projected to the
+// requested fields
+export const paginate = <T extends Record<string, any>>(items: T[], options: ListOptions, compactFields: readonly string[]) => {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const total = items.length;
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+  const page = options.page ?? 1;
+
+  const sorted = options.sortBy ? sortItems(items, options.sortBy, options.order ?? "asc") : items;
+  const fields = options.fields ?? (options.format === "table" ? [...compactFields] : undefined);
+  const pageItems = sorted.slice((page - 1) * limit, page * limit);
+
+  return {
+    items: fields ? pageItems.map(item => project(item, fields)) : pageItems,
+    fields: fields ?? [...compactFields],
+    total,
+    page,
+    totalPages,
+    remaining: Math.max(0, total - (page - 1) * limit - pageItems.length),
+    hasMore: page < totalPages,
+    nextPage: page < totalPages ? page + 1 : undefined
+  };
+};
+
+const tableCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object"
+    ? Array.isArray(value) ? value.join(", ") : Object.entries(value).map(([key, entry]) => `${key}=${entry}`).join(", ")
+    : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+};
+
+// Summary of a page: counts, a table in table format, and a marker telling the
+// model how to get the next page
+export const describePage = (noun: string, result: ReturnType<typeof paginate>, format?: "json" | "table") => {
+  const lines = [`${result.items.length} of ${result.total} ${noun}, page ${result.page} of ${result.totalPages}`];
+
+  if (format === "table" && result.items.length) {
+    const columns = ["id", ...result.fields.filter(field => field !== "id")];
+    lines.push(
+      "",
+      `| ${columns.join(" | ")} |`,
+      `| ${columns.map(() => "---").join(" | ")} |`,
+      ...result.items.map(item => `| ${columns.map(column => tableCell((item as Record<string, any>)[column])).join(" | ")} |`)
+    );
+  }
+  if (result.hasMore) {
+    lines.push("", `More available: ${result.remaining} more ${noun}, call again with page ${result.nextPage}`);
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,487 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import { posix } from "path";
+import { z } from "zod";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { BULK_TOOLS } from "@/lib/bulk";
+import { daytonaClient } from "@/lib/daytona";
+import { interceptTools, McpServer } from "@/lib/interceptors";
+import { handleApiError, toolError } from "@/lib/responses";
+
+// ==================== POLICY FORMAT ====================
+
+// Built-in command rules that can be referenced by name
+const COMMAND_PRESETS = {
+  "rm-rf-root": /(^|[\s;&|(])rm\s+(-\S+\s+)*\/\*?(\s|$|[;&|)])/,
+  "sudo": /(^|[\s;&|(])(sudo|su|doas)(\s|$)/
+};
+
+const isValidRegExp = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const CommandRuleSchema = z.union([
+  z.enum(Object.keys(COMMAND_PRESETS) as [keyof typeof COMMAND_PRESETS]),
+  z.object({
+    name: z.string({ description: "Name reported when the rule matches" }),
+    pattern: z.string({ description: "Regular expression matched against the command" })
+      .refine(isValidRegExp, "Invalid regular expression")
+  }).strict()
+]);
+
+export const CommandPolicySchema = z.object({
+  allow: z.array(CommandRuleSchema, {
+    description: "If set, only commands matching one of these rules can run"
+  }).optional(),
+  deny: z.array(CommandRuleSchema, {
+    description: "Commands matching one of these rules can never run"
+  }).default([]),
+  allowedHosts: z.array(z.string(), {
+    description: "If set, curl and wget can only reach these hosts. *.example.com matches any subdomain"
+  }).optional(),
+  allowedCwds: z.array(z.string(), {
+    description: "If set, commands can only run in these directories or below them"
+  }).optional(),
+  allowCode: z.boolean({
+    description: "Whether runCode may run code, which the command rules cannot check. Default is false"
+  }).default(false)
+}).strict();
+
+export type CommandPolicy = z.infer<typeof CommandPolicySchema>;
+
+// Rules name a tool, a category from TOOL_CATEGORIES, or "*" for every tool
+export const PolicySchema = z.object({
+  allow: z.array(z.string(), {
+    description: "If set, only tools matching one of these rules can be called"
+  }).optional(),
+  deny: z.array(z.string(), {
+    description: "Tools matching one of these rules can never be called"
+  }).default([]),
+  requireConfirmation: z.array(z.string(), {
+    description: "Tools matching one of these rules must be called twice, the second time with the confirm token returned by the first call"
+  }).default([]),
+  sandboxLabels: z.record(z.string(), {
+    description: "Labels a sandbox must carry to be operated on. Sandboxes created through the server get them automatically"
+  }).optional(),
+  commands: CommandPolicySchema.optional()
+}).strict();
+
+export type Policy = z.infer<typeof PolicySchema>;
+
+export const TOOL_CATEGORIES: Record<string, string[]> = {
+  apiKeys: ["listApiKeys", "createApiKey", "getApiKey", "deleteApiKey", "getCurrentApiKey"],
+  organizations: [
+    "listOrganizations", "createOrganization", "getOrganization", "deleteOrganization", "getOrganizationUsage",
+    "updateOrganizationQuota", "listOrganizationMembers", "updateMemberRole", "deleteOrganizationMember",
+    "listOrganizationRoles", "createOrganizationRole"
+  ],
+  sandboxes: [
+    "listSandboxes", "getSandbox", "createSandbox", "deleteSandbox", "startSandbox", "stopSandbox", "waitForSandboxState",
+    "getPreviewUrl", "waitForPort", "setSandboxPublic", "archiveSandbox", "setSandboxLabels", "updateSandboxIntervals",
+    "resizeSandbox", "listTemplates", "provisionFromTemplate", "bulkStartSandboxes", "bulkStopSandboxes",
+    "bulkArchiveSandboxes", "bulkDeleteSandboxes", "listMyResources"
+  ],
+  snapshots: [
+    "listSnapshots", "getSnapshot", "createSnapshot", "deleteSnapshot", "waitForSnapshotState", "createSnapshotFromSandbox",
+    "getSnapshotBuildLogs"
+  ],
+  volumes: ["listVolumes", "getVolume", "getVolumeByName", "createVolume", "deleteVolume", "waitForVolumeState"],
+  process: ["executeCommand"],
+  sessions: [
+    "listSessions", "createSession", "getSession", "deleteSession", "executeSessionCommand",
+    "getSessionCommand", "getSessionCommandLogs", "streamSessionCommand"
+  ],
+  code: ["runCode", "resetContext"],
+  files: [
+    "listFiles", "getFileInfo", "readFile", "uploadFile", "downloadFile", "createFolder", "moveFile",
+    "deleteFile", "setFilePermissions", "searchFiles", "findInFiles", "replaceInFiles"
+  ],
+  git: [
+    "gitClone", "gitStatus", "gitListBranches", "gitCreateBranch", "gitCheckout", "gitAdd", "gitCommit",
+    "gitPush", "gitPull", "gitLog"
+  ],
+  lsp: [
+    "lspStart", "lspStop", "lspDidOpen", "lspDidClose", "lspCompletions", "lspDocumentSymbols",
+    "lspWorkspaceSymbols", "lspDefinition", "lspReferences"
+  ],
+  destructive: [
+    "deleteOrganization", "updateOrganizationQuota", "updateMemberRole", "deleteOrganizationMember", "deleteApiKey",
+    "deleteSandbox", "deleteSnapshot", "deleteVolume", "deleteSession", "deleteFile", "bulkDeleteSandboxes"
+  ]
+};
+
+export const matchesRule = (rule: string, toolName: string) =>
+  rule === "*" || rule === toolName || (TOOL_CATEGORIES[rule]?.includes(toolName) ?? false);
+
+const matchingRule = (rules: string[] | undefined, toolName: string) =>
+  rules?.find(rule => matchesRule(rule, toolName));
+
+export const requiresConfirmation = (policy: Policy, toolName: string) =>
+  matchingRule(policy.requireConfirmation, toolName) !== undefined;
+
+// ==================== CONFIRMATION TOKENS ====================
+
+// How long a confirm token stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// JSON with sorted object keys, so the same arguments always sign the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const fields = value as Record<string, unknown>;
+    return `{${Object.keys(fields).sort()
+      .filter(key => fields[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(fields[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const signature = (secret: string, toolName: string, args: Record<string, any>, expiresAt: number) =>
+  createHmac("sha256", secret).update(`${toolName}\n${canonicalJson(args)}\n${expiresAt}`).digest("base64url");
+
+// Stateless confirm token bound to the tool, its exact arguments and an expiry,
+// so it is valid on any server instance that shares the secret
+export const confirmationToken = (secret: string, toolName: string, args: Record<string, any>, now = Date.now()) => {
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  return `${expiresAt}.${signature(secret, toolName, args, expiresAt)}`;
+};
+
+export const verifyConfirmationToken = (secret: string, toolName: string, args: Record<string, any>, token: string, now = Date.now()) => {
+  const [expiresAtText, tokenSignature = ""] = token.split(".");
+  const expiresAt = Number(expiresAtText);
+  if (!Number.isFinite(expiresAt) || expiresAt < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signature(secret, toolName, args, expiresAt));
+  const actual = Buffer.from(tokenSignature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// ==================== COMMAND CHECKS ====================
+
+// Tools whose `command` argument runs in a shell, and whose optional `cwd`
+// argument sets its working directory
+const COMMAND_TOOLS = ["executeCommand", "executeSessionCommand", "streamSessionCommand"];
+
+// Tools that run code in an interpreter, which can start any command without
+// the command rules seeing it
+const CODE_TOOLS = ["runCode"];
+
+const NETWORK_COMMANDS = ["curl", "wget"];
+
+// curl and wget flags whose value is not a host, such as an output file
+const VALUE_FLAGS = [
+  "-o", "--output", "-O", "--output-document", "-P", "--directory-prefix", "-H", "--header", "-d", "--data",
+  "--data-raw", "--data-binary", "-F", "--form", "-u", "--user", "-A", "--user-agent", "-e", "--referer",
+  "-T", "--upload-file", "-b", "--cookie", "-c", "--cookie-jar", "-w", "--write-out", "-X", "--request"
+];
+
+export interface CommandViolation {
+  rule: string;
+  reason: string;
+}
+
+const ruleName = (rule: z.infer<typeof CommandRuleSchema>) => typeof rule === "string" ? rule : rule.name;
+
+const ruleMatches = (rule: z.infer<typeof CommandRuleSchema>, command: string) =>
+  typeof rule === "string" ? COMMAND_PRESETS[rule].test(command) : new RegExp(rule.pattern).test(command);
+
+// Simple commands of a shell command line, split on operators and command
+// substitutions, as lists of unquoted words
+const commandWords = (command: string) =>
+  command.split(/\|\||&&|[;|&\n`]|\$\(/)
+    .map(segment => (segment.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(word => word.replace(/^(["'])(.*)\1$/, "$2")))
+    .filter(words => words.length > 0);
+
+// Hosts a curl or wget invocation connects to. This is a heuristic over the
+// command line, not a network sandbox.
+const requestedHosts = (words: string[]) => {
+  const hosts: string[] = [];
+  words.forEach((word, index) => {
+    if (word.startsWith("-") || VALUE_FLAGS.includes(words[index - 1])) return;
+
+    const url = word.includes("://") ? word : `http://${word}`;
+    try {
+      const { hostname } = new URL(url);
+      if (word.includes("://") || hostname === "localhost" || hostname.includes(".")) {
+        hosts.push(hostname.toLowerCase());
+      }
+    } catch {
+      // Not a URL
+    }
+  });
+  return hosts;
+};
+
+const hostAllowed = (host: string, allowedHosts: string[]) =>
+  allowedHosts.some(allowed => {
+    const pattern = allowed.toLowerCase();
+    return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+  });
+
+const withinDirectories = (path: string, directories: string[]) => {
+  const normalized = posix.normalize(path).replace(/(.)\/$/, "$1");
+  return directories.some(directory => {
+    const base = posix.normalize(directory).replace(/(.)\/$/, "$1");
+    return normalized === base || normalized.startsWith(base === "/" ? "/" : `${base}/`);
+  });
+};
+
+// First command policy rule the command breaks, checking deny rules, the
+// allow list, reachable hosts and working directories in that order
+export const evaluateCommand = (policy: CommandPolicy, command: string, cwd?: string): CommandViolation | undefined => {
+  const denyRule = policy.deny.find(rule => ruleMatches(rule, command));
+  if (denyRule) {
+    return { rule: ruleName(denyRule), reason: "the command matches a denied pattern" };
+  }
+
+  if (policy.allow && !policy.allow.some(rule => ruleMatches(rule, command))) {
+    return { rule: "allow", reason: "the command does not match any allowed pattern" };
+  }
+
+  const words = commandWords(command);
+
+  if (policy.allowedHosts) {
+    for (const simpleCommand of words) {
+      const [program, ...args] = simpleCommand;
+      if (!NETWORK_COMMANDS.includes(posix.basename(program))) continue;
+
+      const host = requestedHosts(args).find(host => !hostAllowed(host, policy.allowedHosts!));
+      if (host) {
+        return { rule: "allowedHosts", reason: `${host} is not an allowed host` };
+      }
+    }
+  }
+
+  if (policy.allowedCwds) {
+    if (cwd !== undefined && !(posix.isAbsolute(cwd) && withinDirectories(cwd, policy.allowedCwds))) {
+      return { rule: "allowedCwds", reason: `${cwd} is not within an allowed directory` };
+    }
+
+    // A relative cd stays below the current directory unless it goes up
+    for (const [program, target] of words) {
+      if (program !== "cd") continue;
+      const staysBelow = target !== undefined && !target.startsWith("~") && !target.startsWith("$")
+        && (posix.isAbsolute(target) ? withinDirectories(target, policy.allowedCwds) : !target.split("/").includes(".."));
+      if (!staysBelow) {
+        return { rule: "allowedCwds", reason: `${target === undefined ? "cd" : `cd ${target}`} leaves the allowed directories` };
+      }
+    }
+  }
+
+  return undefined;
+};
+
+// ==================== POLICY EVALUATION ====================
+
+export interface PolicyContext {
+  // Labels of a sandbox, or undefined if there is no such sandbox
+  sandboxLabels: (sandboxId: string) => Promise<Record<string, string> | undefined>;
+  // Secret that signs confirm tokens
+  secret: string;
+  now?: number;
+}
+
+export type PolicyDecision =
+  | { allowed: true; args: Record<string, any> }
+  | { allowed: false; code: string; message: string; details?: Record<string, any> };
+
+const formatLabels = (labels: Record<string, string>) =>
+  Object.entries(labels).map(([key, value]) => `${key}=${value}`).join(", ");
+
+// Decides whether a tool call may run, and with which arguments. Sandboxes
+// created, listed or changed in bulk through the server are scoped to the
+// required labels.
+export const evaluatePolicy = async (
+  policy: Policy,
+  toolName: string,
+  args: Record<string, any>,
+  context: PolicyContext
+): Promise<PolicyDecision> => {
+  const { confirm, ...toolArgs } = args;
+
+  const denyRule = matchingRule(policy.deny, toolName);
+  if (denyRule) {
+    return { allowed: false, code: "TOOL_DENIED", message: `Tool ${toolName} is denied by policy rule "${denyRule}"` };
+  }
+
+  if (policy.allow && !matchingRule(policy.allow, toolName)) {
+    return { allowed: false, code: "TOOL_NOT_ALLOWED", message: `Tool ${toolName} is not in the policy allow list` };
+  }
+
+  if (policy.commands && COMMAND_TOOLS.includes(toolName) && typeof toolArgs.command === "string") {
+    const violation = evaluateCommand(policy.commands, toolArgs.command, toolArgs.cwd);
+    if (violation) {
+      return {
+        allowed: false,
+        code: "COMMAND_DENIED",
+        message: `Command rejected by policy rule "${violation.rule}": ${violation.reason}`,
+        details: { rule: violation.rule }
+      };
+    }
+  }
+
+  if (policy.commands && CODE_TOOLS.includes(toolName) && !policy.commands.allowCode) {
+    return {
+      allowed: false,
+      code: "COMMAND_DENIED",
+      message: `Tool ${toolName} is denied while the policy restricts commands, as code is not checked against the command rules`,
+      details: { rule: "allowCode" }
+    };
+  }
+
+  let allowedArgs = toolArgs;
+  const requiredLabels = policy.sandboxLabels;
+  if (requiredLabels && Object.keys(requiredLabels).length > 0) {
+    if (typeof toolArgs.sandboxId === "string") {
+      const labels = await context.sandboxLabels(toolArgs.sandboxId);
+      const missing = Object.entries(requiredLabels).filter(([key, value]) => labels?.[key] !== value);
+      if (!labels || missing.length > 0) {
+        return {
+          allowed: false,
+          code: "SANDBOX_NOT_ALLOWED",
+          message: `Sandbox ${toolArgs.sandboxId} does not carry the labels required by policy: ${formatLabels(requiredLabels)}`
+        };
+      }
+    }
+
+    if (toolName === "createSandbox") {
+      allowedArgs = { ...allowedArgs, labels: { ...allowedArgs.labels, ...requiredLabels } };
+    }
+
+    // Label updates cannot take a sandbox out of the policy's scope
+    if (toolName === "setSandboxLabels") {
+      allowedArgs = {
+        ...allowedArgs,
+        labels: { ...allowedArgs.labels, ...requiredLabels },
+        removeLabels: allowedArgs.removeLabels?.filter((key: string) => !(key in requiredLabels))
+      };
+    }
+
+    // Bulk tools reject calls without a selector, so the required labels must
+    // not turn an empty selector into a valid one
+    const filtersByLabels = toolName === "listSandboxes" || (BULK_TOOLS.includes(toolName) && (allowedArgs.labels || allowedArgs.sandboxIds));
+    if (filtersByLabels) {
+      let labelFilter: Record<string, string> = {};
+      try {
+        labelFilter = allowedArgs.labels ? JSON.parse(allowedArgs.labels) : {};
+      } catch {
+        return { allowed: false, code: "BAD_REQUEST", message: "labels must be a JSON encoded object" };
+      }
+      allowedArgs = { ...allowedArgs, labels: JSON.stringify({ ...labelFilter, ...requiredLabels }) };
+    }
+  }
+
+  if (requiresConfirmation(policy, toolName)) {
+    if (typeof confirm !== "string") {
+      const token = confirmationToken(context.secret, toolName, toolArgs, context.now);
+      return {
+        allowed: false,
+        code: "CONFIRMATION_REQUIRED",
+        message: `${toolName} requires confirmation. Call it again with the same arguments and confirm: "${token}" to proceed`,
+        details: { confirmToken: token }
+      };
+    }
+
+    if (!verifyConfirmationToken(context.secret, toolName, toolArgs, confirm, context.now)) {
+      return {
+        allowed: false,
+        code: "INVALID_CONFIRMATION",
+        message: `The confirm token for ${toolName} is invalid, expired or was issued for different arguments`
+      };
+    }
+  }
+
+  return { allowed: true, args: allowedArgs };
+};
+
+// ==================== POLICY LOADING ====================
+
+// Policy from DAYTONA_POLICY (inline JSON) or DAYTONA_POLICY_FILE (path to a
+// JSON file). Returns undefined when neither is set.
+export const loadPolicy = (): Policy | undefined => {
+  const source = process.env.DAYTONA_POLICY
+    ?? (process.env.DAYTONA_POLICY_FILE ? readFileSync(process.env.DAYTONA_POLICY_FILE, "utf-8") : undefined);
+  if (!source) {
+    return undefined;
+  }
+
+  const result = PolicySchema.safeParse(JSON.parse(source));
+  if (!result.success) {
+    throw new Error(`Invalid tool policy: ${result.error.message}`);
+  }
+  return result.data;
+};
+
+let activePolicy: Policy | undefined;
+let policyLoaded = false;
+
+// The policy configured for this server, loaded once
+export const configuredPolicy = () => {
+  if (!policyLoaded) {
+    activePolicy = loadPolicy();
+    policyLoaded = true;
+  }
+  return activePolicy;
+};
+
+// Signs confirm tokens. Without DAYTONA_POLICY_SECRET tokens are only valid on
+// the instance that issued them.
+const confirmationSecret = process.env.DAYTONA_POLICY_SECRET || randomBytes(32).toString("hex");
+
+// Evaluates a call against a policy, looking up the labels of its sandbox
+// through the Daytona API with the caller's credentials
+export const checkPolicy = (policy: Policy, toolName: string, args: Record<string, any>, authInfo?: AuthInfo) => {
+  const headers: Record<string, string> = args.organizationId ? { "X-Daytona-Organization-ID": args.organizationId } : {};
+
+  return evaluatePolicy(policy, toolName, args, {
+    secret: confirmationSecret,
+    sandboxLabels: async sandboxId => {
+      try {
+        const response = await daytonaClient(authInfo).get(`/sandbox/${sandboxId}`, { headers });
+        return response.data.labels ?? {};
+      } catch (error: any) {
+        if (error.response?.status === 404) return undefined;
+        throw error;
+      }
+    }
+  });
+};
+
+// Checks the configured policy before every tool registered on the server.
+// Has no effect when no policy is configured.
+export const applyToolPolicy = (server: McpServer, policy = configuredPolicy()) => {
+  if (!policy) {
+    return;
+  }
+
+  interceptTools(server, {
+    extendInputSchema: toolName => requiresConfirmation(policy, toolName)
+      ? {
+        confirm: z.string({
+          description: "Confirm token returned by a previous call of this tool with the same arguments"
+        }).optional()
+      }
+      : undefined,
+    wrapCallback: (toolName, callback) => async (args, extra) => {
+      let decision: PolicyDecision;
+      try {
+        decision = await checkPolicy(policy, toolName, args, extra.authInfo);
+      } catch (error) {
+        return handleApiError(error, `Failed to check the policy for ${toolName}`);
+      }
+
+      if (!decision.allowed) {
+        return toolError(decision.code, decision.message, 403, decision.details);
+      }
+      return callback(decision.args, extra);
+    }
+  });
+};
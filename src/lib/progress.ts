@@ -0,0 +1,47 @@
+// ==================== PROGRESS REPORTING ====================
+
+// The part of a tool callback's `extra` argument used to report progress
+export interface ProgressExtra {
+  signal: AbortSignal;
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: any) => Promise<void>;
+}
+
+// Sends a progress notification, if the client asked for progress by giving
+// the request a progress token. Returns whether a notification was sent.
+export const sendProgress = async (extra: ProgressExtra, progress: number, message?: string, total?: number) => {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return false;
+  }
+
+  await extra.sendNotification({
+    method: "notifications/progress",
+    params: { progressToken, progress, total, message }
+  });
+  return true;
+};
+
+// The extra of a nested operation, such as a wait, of a tool call that reports
+// its own progress. Progress has to increase, so the operation sends none.
+export const withoutProgress = (extra: ProgressExtra): ProgressExtra => ({
+  ...extra,
+  _meta: { ...extra._meta, progressToken: undefined }
+});
+
+// Resolves after a delay, or rejects as soon as the tool call is cancelled
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    return reject(signal.reason);
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
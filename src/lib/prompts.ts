@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { McpServer } from "@/lib/interceptors";
+
+// ==================== PROMPTS ====================
+//
+// Prompts for common workflows. Each one walks the model through the tools to
+// call, with the arguments it can already fill in from the prompt arguments.
+
+const DEFAULT_STALE_DAYS = 7;
+
+// A tool call spelled out for the model. Undefined arguments are left out.
+const toolCall = (toolName: string, args: Record<string, unknown>) =>
+  `\`${toolName}\` with\n\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\``;
+
+const numbered = (steps: string[]) => steps.map((step, index) => `${index + 1}. ${step}`).join("\n\n");
+
+const userMessage = (text: string) => ({
+  messages: [{ role: "user" as const, content: { type: "text" as const, text } }]
+});
+
+const organizationArgument = {
+  organizationId: z.string({
+    description: "Organization ID (optional, uses default from API key if not provided)"
+  }).optional()
+};
+
+export const registerPrompts = (server: McpServer) => {
+  server.prompt(
+    "run-tests-in-fresh-sandbox",
+    "Create a sandbox, clone a repository into it, run its tests and clean up",
+    {
+      repository: z.string({ description: "URL of the git repository" }),
+      branch: z.string({ description: "Branch to test. Default is the repository's default branch" }).optional(),
+      testCommand: z.string({ description: "Command that runs the tests, e.g. npm test. Detected from the repository if not given" }).optional(),
+      snapshot: z.string({ description: "Snapshot to create the sandbox from. Default is daytonaio/sandbox:0.3.0" }).optional(),
+      ...organizationArgument
+    },
+    ({ repository, branch, testCommand, snapshot, organizationId }) => {
+      const path = "/home/daytona/repo";
+      return userMessage(`Run the tests of ${repository}${branch ? ` on branch ${branch}` : ""} in a fresh Daytona sandbox.
+
+${numbered([
+  `Create the sandbox and wait for it to start: ${toolCall("createSandbox", {
+    snapshot: snapshot ?? "daytonaio/sandbox:0.3.0",
+    labels: { purpose: "tests" },
+    autoStopInterval: 30,
+    waitUntil: "started",
+    organizationId
+  })}`,
+  `Clone the repository, using the sandbox ID from step 1: ${toolCall("gitClone", { sandboxId: "<sandbox ID>", url: repository, path, branch, organizationId })}`,
+  testCommand
+    ? `Run the tests: ${toolCall("executeCommand", { sandboxId: "<sandbox ID>", command: testCommand, cwd: path, timeout: 600, organizationId })}`
+    : `Find out how the tests are run by reading the project files in ${path} with \`listFiles\` and \`readFile\` (package.json, pyproject.toml, Makefile, ...). Install the dependencies and run the tests with \`executeCommand\`, using cwd ${path} and a timeout of 600 seconds.`,
+  "Report the exit code, how many tests passed and failed, and the output of every failing test.",
+  `Delete the sandbox, unless I ask to keep it for debugging. It is still running, so force the deletion: ${toolCall("deleteSandbox", { sandboxId: "<sandbox ID>", force: true, organizationId })}`
+])}`);
+    }
+  );
+
+  server.prompt(
+    "debug-failing-command",
+    "Reproduce a failing command in a sandbox and find out why it fails",
+    {
+      sandboxId: z.string({ description: "ID of the sandbox" }),
+      command: z.string({ description: "The command that fails" }),
+      cwd: z.string({ description: "Working directory of the command" }).optional(),
+      ...organizationArgument
+    },
+    ({ sandboxId, command, cwd, organizationId }) => userMessage(`The command \`${command}\` fails in sandbox ${sandboxId}. Find out why and suggest a fix.
+
+${numbered([
+  `Check that the sandbox is running, and start it with \`startSandbox\` and \`waitUntil: "started"\` if it is not: ${toolCall("getSandbox", { sandboxId, organizationId })}`,
+  `Reproduce the failure and note the exit code and output: ${toolCall("executeCommand", { sandboxId, command, cwd, timeout: 300, organizationId })}`,
+  "Read the error. Inspect the files, configuration and logs it mentions with `listFiles`, `readFile` and `findInFiles`, and check the environment the command relies on (tools on the PATH, versions, environment variables, free disk space) with further `executeCommand` calls.",
+  `For long running or interactive commands, run them with ${toolCall("streamSessionCommand", { sandboxId, command, organizationId })} to see the output as it happens.`,
+  "Explain the root cause, and only change files or install packages in the sandbox after telling me what you are about to change. Run the command again to confirm the fix."
+])}`)
+  );
+
+  server.prompt(
+    "clean-up-stale-sandboxes",
+    "Find sandboxes that have not been used for a while and archive or delete them after confirmation",
+    {
+      olderThanDays: z.string({ description: `Only consider sandboxes not started, stopped or otherwise updated for more than this many days. Default is ${DEFAULT_STALE_DAYS}` }).optional(),
+      labels: z.string({ description: "JSON encoded labels the sandboxes must have, e.g. {\"team\": \"backend\"}" }).optional(),
+      ...organizationArgument
+    },
+    ({ olderThanDays, labels, organizationId }) => {
+      const days = Number(olderThanDays) > 0 ? Number(olderThanDays) : DEFAULT_STALE_DAYS;
+      const updatedBefore = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+      return userMessage(`Clean up Daytona sandboxes that have not been used for ${days} days and are not running.
+
+${numbered([
+  `List the candidates, and fetch the following pages too if more are available: ${toolCall("listSandboxes", {
+    labels,
+    state: ["stopped", "error", "build_failed"],
+    updatedBefore,
+    sortBy: "updatedAt",
+    fields: ["state", "labels", "createdAt", "updatedAt"],
+    format: "table",
+    limit: 100,
+    organizationId
+  })}`,
+  "Show me the candidates as a table with their ID, state, labels and last update, and propose for each one whether to archive it (keeps the filesystem, frees resources) or delete it (sandboxes in an error state). Do not include running sandboxes.",
+  "Wait for my confirmation. Do not archive or delete anything I did not confirm.",
+  `Archive the confirmed sandboxes with \`archiveSandbox\` and delete the others with \`deleteSandbox\`, e.g. ${toolCall("archiveSandbox", { sandboxId: "<sandbox ID>", organizationId })} and ${toolCall("deleteSandbox", { sandboxId: "<sandbox ID>", force: false, organizationId })}`,
+  "Report which sandboxes were archived, which were deleted, and any that failed."
+])}`);
+    }
+  );
+
+  server.prompt(
+    "audit-org-access",
+    "Review who and which API keys can access an organization",
+    {
+      organizationId: z.string({ description: "ID of the organization to audit" })
+    },
+    ({ organizationId }) => userMessage(`Audit access to the Daytona organization ${organizationId}.
+
+${numbered([
+  `Get the organization: ${toolCall("getOrganization", { organizationId })}`,
+  `List its members and their roles: ${toolCall("listOrganizationMembers", { organizationId })}`,
+  `List the roles and the permissions they grant: ${toolCall("listOrganizationRoles", { organizationId })}`,
+  `List the API keys: ${toolCall("listApiKeys", { organizationId })}`,
+  "Report owners and members with write or admin permissions, API keys that never expire, have not been used for 90 days or more, or carry more permissions than their name suggests, and roles no member uses.",
+  "Recommend changes, but do not change roles, remove members or delete API keys unless I ask for a specific change."
+])}`)
+  );
+};
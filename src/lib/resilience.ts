@@ -0,0 +1,252 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { sleep } from "@/lib/progress";
+
+// ==================== SETTINGS ====================
+
+const numberSetting = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Seconds a request may take before it is aborted, 0 for no limit
+export const REQUEST_TIMEOUT_MS = numberSetting("DAYTONA_REQUEST_TIMEOUT", 60) * 1000;
+const MAX_RETRIES = numberSetting("DAYTONA_MAX_RETRIES", 3);
+// Requests in flight and started per second for one API key, 0 for no limit
+const MAX_CONCURRENCY = numberSetting("DAYTONA_MAX_CONCURRENCY", 10);
+const RATE_LIMIT = numberSetting("DAYTONA_RATE_LIMIT", 0);
+const CIRCUIT_THRESHOLD = numberSetting("DAYTONA_CIRCUIT_THRESHOLD", 5);
+const CIRCUIT_COOLDOWN_MS = numberSetting("DAYTONA_CIRCUIT_COOLDOWN", 30) * 1000;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10000;
+// Longer Retry-After waits fail the request instead
+const MAX_RETRY_AFTER_MS = 60000;
+// Extra time a command request gets on top of the command's own timeout
+const COMMAND_GRACE_SECONDS = 30;
+// Limits and circuits of API keys without requests for this long are dropped
+const KEY_IDLE_MS = 10 * 60 * 1000;
+
+// Timeout of a request that runs a command in a sandbox, which lasts as long
+// as the command. Without a command timeout the request is not limited either.
+export const commandTimeout = (seconds?: number) => seconds ? (seconds + COMMAND_GRACE_SECONDS) * 1000 : 0;
+
+// ==================== RATE LIMITING ====================
+
+interface Limiter {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+  release: () => void;
+  // Whether no request is in flight or waiting
+  idle: () => boolean;
+}
+
+// Allows at most `maxConcurrency` requests in flight, started at no more than
+// `perSecond` a second. Waiting requests are aborted with their tool call.
+const createLimiter = (maxConcurrency: number, perSecond: number): Limiter => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  const started: number[] = [];
+
+  const nextTurn = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      waiting.splice(waiting.indexOf(turn), 1);
+      reject(signal?.reason);
+    };
+    const turn = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    waiting.push(turn);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const acquire = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    while (maxConcurrency && active >= maxConcurrency) {
+      await nextTurn(signal);
+    }
+    active++;
+
+    try {
+      while (perSecond) {
+        const now = Date.now();
+        while (started.length && started[0] <= now - 1000) started.shift();
+        if (started.length < perSecond) break;
+        await sleep(started[0] + 1000 - now, signal);
+      }
+      started.push(Date.now());
+    } catch (error) {
+      release();
+      throw error;
+    }
+  };
+
+  return { acquire, release, idle: () => active === 0 && waiting.length === 0 };
+};
+
+// ==================== CIRCUIT BREAKER ====================
+
+// Thrown without sending the request while the Daytona API keeps failing
+export class CircuitOpenError extends Error {
+  constructor(public failures: number, public retryAfter: number) {
+    super(`The Daytona API failed ${failures} times in a row, requests are paused for ${retryAfter}s`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// After CIRCUIT_THRESHOLD failures in a row requests fail fast until the
+// cooldown is over, then one request is let through to probe whether the API
+// recovered.
+interface Circuit {
+  failures: number;
+  openUntil: number;
+}
+
+const checkCircuit = (circuit: Circuit) => {
+  if (!CIRCUIT_THRESHOLD || circuit.failures < CIRCUIT_THRESHOLD) return;
+
+  const now = Date.now();
+  if (now < circuit.openUntil) {
+    throw new CircuitOpenError(circuit.failures, Math.ceil((circuit.openUntil - now) / 1000));
+  }
+  circuit.openUntil = now + CIRCUIT_COOLDOWN_MS;
+};
+
+const recordResult = (circuit: Circuit, healthy: boolean) => {
+  if (healthy) {
+    circuit.failures = 0;
+    return;
+  }
+  circuit.failures++;
+  if (circuit.failures >= CIRCUIT_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+  }
+};
+
+// Server errors and requests without a response count against the API, client
+// errors and throttling do not. Neither do timeouts of requests with their own
+// timeout, such as commands, which time out when the command runs too long.
+const isFailure = (error: AxiosError) => {
+  if (axios.isCancel(error) || !error.request) return false;
+  if (error.response) return error.response.status >= 500;
+  return error.code !== "ECONNABORTED" || error.config?.timeout === REQUEST_TIMEOUT_MS;
+};
+
+// ==================== API KEYS ====================
+
+// Limits and circuits are per API key, since Daytona throttles each key on its
+// own and the failures of one tenant should not pause the requests of others
+interface KeyState {
+  limiter: Limiter;
+  circuit: Circuit;
+  lastUsed: number;
+}
+
+const keyStates = new Map<string, KeyState>();
+let lastSweep = Date.now();
+
+// Drops the state of keys that have been idle for a while, so the map does not
+// grow with every key that ever made a request
+const sweepKeyStates = (now: number) => {
+  if (now - lastSweep < KEY_IDLE_MS) return;
+  lastSweep = now;
+  for (const [apiKey, state] of keyStates) {
+    if (now - state.lastUsed >= KEY_IDLE_MS && state.limiter.idle()) keyStates.delete(apiKey);
+  }
+};
+
+const keyState = (apiKey = "") => {
+  const now = Date.now();
+  sweepKeyStates(now);
+  let state = keyStates.get(apiKey);
+  if (!state) {
+    state = { limiter: createLimiter(MAX_CONCURRENCY, RATE_LIMIT), circuit: { failures: 0, openUntil: 0 }, lastUsed: now };
+    keyStates.set(apiKey, state);
+  }
+  state.lastUsed = now;
+  return state;
+};
+
+// ==================== RETRIES ====================
+
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+const RETRY_STATUSES = [429, 502, 503, 504];
+
+interface ResilientConfig extends InternalAxiosRequestConfig {
+  // State of the API key the request was sent with, set while it holds a limiter slot
+  keyState?: KeyState;
+  retries?: number;
+}
+
+// Throttled requests were not processed and can always be repeated. Other
+// failures are only retried for idempotent requests.
+const isRetryable = (error: AxiosError) => {
+  if (axios.isCancel(error) || !error.request) return false;
+  const status = error.response?.status;
+  if (status === 429) return true;
+  return IDEMPOTENT_METHODS.includes(error.config?.method ?? "get") && (status === undefined || RETRY_STATUSES.includes(status));
+};
+
+// Retry-After in seconds or as an HTTP date
+const retryAfterMs = (header: unknown) => {
+  if (typeof header !== "string" || !header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms);
+};
+
+// Exponential backoff with full jitter
+const backoffMs = (attempt: number) => Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+// ==================== CLIENT ====================
+
+// Adds the rate limiter, circuit breaker and retries to a Daytona API client
+export const makeResilient = (client: AxiosInstance, apiKey?: string) => {
+  // The state is looked up per request, as it may have been dropped while the client was idle
+  const release = (config?: ResilientConfig) => {
+    const state = config?.keyState;
+    if (state) {
+      config.keyState = undefined;
+      state.limiter.release();
+    }
+    return state;
+  };
+
+  client.interceptors.request.use(async (config: ResilientConfig) => {
+    const state = keyState(apiKey);
+    checkCircuit(state.circuit);
+    await state.limiter.acquire(config.signal as AbortSignal | undefined);
+    config.keyState = state;
+    return config;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      const state = release(response.config);
+      if (state) recordResult(state.circuit, true);
+      return response;
+    },
+    async error => {
+      if (!axios.isAxiosError(error)) throw error;
+      const config = error.config as ResilientConfig | undefined;
+      const state = release(config);
+      if (state && !axios.isCancel(error)) recordResult(state.circuit, !isFailure(error));
+
+      const retries = config?.retries ?? 0;
+      if (!config || retries >= MAX_RETRIES || !isRetryable(error)) throw error;
+
+      const retryAfter = retryAfterMs(error.response?.headers["retry-after"]);
+      if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) throw error;
+
+      await sleep(retryAfter ?? backoffMs(retries), config.signal as AbortSignal | undefined);
+      config.retries = retries + 1;
+      return client.request(config);
+    }
+  );
+
+  return client;
+};
@@ -0,0 +1,277 @@
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { hasScope, oauthEnabled, toolScope } from "@/lib/auth";
+import { daytonaClient } from "@/lib/daytona";
+import { fetchAllPages } from "@/lib/listing";
+import { McpServer } from "@/lib/interceptors";
+import { checkPolicy, configuredPolicy } from "@/lib/policy";
+import { handleApiError } from "@/lib/responses";
+
+// ==================== RESOURCE ACCESS ====================
+//
+// Resources expose the same data as the read tools, so reading one is checked
+// against the scope and policy of its tool: daytona://sandbox/{id} is read like
+// getSandbox, and a sandbox file like downloadFile.
+
+const JSON_MIME_TYPE = "application/json";
+
+// Checks the scope and policy of the tool a resource read corresponds to, and
+// returns the arguments the policy allows
+const authorize = async (toolName: string, args: Record<string, any>, authInfo?: AuthInfo) => {
+  const scope = toolScope(toolName);
+  if (oauthEnabled && !hasScope(authInfo?.scopes ?? [], scope)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Reading this resource requires the ${scope} scope`, { code: "INSUFFICIENT_SCOPE" });
+  }
+
+  const policy = configuredPolicy();
+  if (!policy) {
+    return args;
+  }
+
+  const decision = await checkPolicy(policy, toolName, args, authInfo);
+  if (!decision.allowed) {
+    throw new McpError(ErrorCode.InvalidRequest, decision.message, { code: decision.code });
+  }
+  return decision.args;
+};
+
+// Daytona API failures as JSON-RPC errors, keeping the tool error code as data
+const resourceError = (error: unknown, message: string) => {
+  if (error instanceof McpError) return error;
+  const { error: details } = handleApiError(error, message).structuredContent;
+  return new McpError(details.status === 404 ? ErrorCode.InvalidParams : ErrorCode.InternalError, details.message, details);
+};
+
+// The adapter's server resolves to the SDK's CommonJS typings, whose template
+// class is nominally distinct from the ESM one imported here
+type AdapterResourceTemplate = Parameters<McpServer["resource"]>[1];
+
+const resourceTemplate = (...args: ConstructorParameters<typeof ResourceTemplate>) =>
+  new ResourceTemplate(...args) as unknown as AdapterResourceTemplate;
+
+const variable = (value: string | string[]) => Array.isArray(value) ? value[0] : value;
+
+const jsonContents = (uri: URL, data: unknown) => ({
+  contents: [{ uri: uri.toString(), mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }]
+});
+
+// ==================== RESOURCE KINDS ====================
+
+interface EntityResource {
+  kind: string;
+  // Tool whose scope and policy apply to reading the resource
+  readTool: string;
+  listTool: string;
+  path: (id: string) => string;
+  // Argument the read tool takes the ID in, which sandbox label rules check
+  idArgument: string;
+  // Lists the entities with the arguments the policy allows for the list tool
+  list: (args: Record<string, any>, authInfo?: AuthInfo) => Promise<any[]>;
+  describe: (entity: any) => string;
+}
+
+const ENTITY_RESOURCES: EntityResource[] = [
+  {
+    kind: "sandbox",
+    readTool: "getSandbox",
+    listTool: "listSandboxes",
+    path: id => `/sandbox/${id}`,
+    idArgument: "sandboxId",
+    list: async ({ labels }, authInfo) => {
+      const response = await daytonaClient(authInfo).get("/sandbox", { params: labels ? { labels } : {} });
+      return response.data;
+    },
+    describe: sandbox => `Sandbox (${sandbox.state ?? "unknown"})${sandbox.snapshot ? ` from ${sandbox.snapshot}` : ""}`
+  },
+  {
+    kind: "snapshot",
+    readTool: "getSnapshot",
+    listTool: "listSnapshots",
+    path: id => `/snapshots/${id}`,
+    idArgument: "id",
+    list: (_args, authInfo) => fetchAllPages(async (page, limit) => {
+      const response = await daytonaClient(authInfo).get("/snapshots", { params: { page, limit } });
+      return response.data;
+    }),
+    describe: snapshot => `Snapshot ${snapshot.name ?? snapshot.id} (${snapshot.state ?? "unknown"})`
+  },
+  {
+    kind: "volume",
+    readTool: "getVolume",
+    listTool: "listVolumes",
+    path: id => `/volumes/${id}`,
+    idArgument: "volumeId",
+    list: async (_args, authInfo) => {
+      const response = await daytonaClient(authInfo).get("/volumes");
+      return response.data;
+    },
+    describe: volume => `Volume ${volume.name ?? volume.id} (${volume.state ?? "unknown"})`
+  }
+];
+
+const entityUri = (kind: string, id: string) => `daytona://${kind}/${encodeURIComponent(id)}`;
+
+const fetchEntity = async (resource: EntityResource, id: string, authInfo?: AuthInfo) => {
+  await authorize(resource.readTool, { [resource.idArgument]: id }, authInfo);
+  const response = await daytonaClient(authInfo).get(resource.path(id));
+  return response.data;
+};
+
+// Sandbox files are addressed by their absolute path without the leading
+// slash, e.g. daytona://sandbox/{id}/file/home/daytona/app.py
+const readSandboxFile = async (uri: URL, sandboxId: string, path: string, authInfo?: AuthInfo) => {
+  await authorize("downloadFile", { sandboxId, path }, authInfo);
+  const response = await daytonaClient(authInfo).get(`/toolbox/${sandboxId}/toolbox/files/download`, {
+    params: { path },
+    responseType: "arraybuffer"
+  });
+
+  const file = Buffer.from(response.data);
+  const mimeType = String(response.headers["content-type"] || "application/octet-stream");
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(file);
+    return { contents: [{ uri: uri.toString(), mimeType, text }] };
+  } catch {
+    return { contents: [{ uri: uri.toString(), mimeType, blob: file.toString("base64") }] };
+  }
+};
+
+// ==================== SUBSCRIPTIONS ====================
+
+const POLL_INTERVAL_MS = 5000;
+
+interface Subscription {
+  resource: EntityResource;
+  id: string;
+  authInfo?: AuthInfo;
+  state?: string;
+}
+
+// Polls subscribed sandboxes, snapshots and volumes and notifies the client
+// when their state changes. Notifications need a connection that outlives the
+// request, so subscribing is only possible over the SSE transport.
+const handleSubscriptions = (server: McpServer) => {
+  const subscriptions = new Map<string, Subscription>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    timer = undefined;
+    if (!server.isConnected()) {
+      subscriptions.clear();
+      return;
+    }
+
+    for (const [uri, subscription] of subscriptions) {
+      try {
+        const entity = await fetchEntity(subscription.resource, subscription.id, subscription.authInfo);
+        if (entity.state !== subscription.state) {
+          subscription.state = entity.state;
+          await server.server.sendResourceUpdated({ uri });
+        }
+      } catch (error: any) {
+        // A deleted resource changes one last time
+        if (error.response?.status === 404) {
+          subscriptions.delete(uri);
+          await server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+    }
+
+    if (subscriptions.size) {
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    if (!extra.sessionId) {
+      throw new McpError(ErrorCode.InvalidRequest, "Resource subscriptions need the SSE transport, since the streamable HTTP endpoint is stateless");
+    }
+
+    const uri = new URL(request.params.uri);
+    const resource = ENTITY_RESOURCES.find(candidate => uri.protocol === "daytona:" && uri.host === candidate.kind);
+    const id = decodeURIComponent(uri.pathname.slice(1));
+    if (!resource || !id || id.includes("/")) {
+      throw new McpError(ErrorCode.InvalidParams, `Only sandbox, snapshot and volume resources can be subscribed to, not ${request.params.uri}`);
+    }
+
+    try {
+      const entity = await fetchEntity(resource, id, extra.authInfo);
+      subscriptions.set(request.params.uri, { resource, id, authInfo: extra.authInfo, state: entity.state });
+    } catch (error) {
+      throw resourceError(error, `Failed to subscribe to ${request.params.uri}`);
+    }
+
+    timer ??= setTimeout(poll, POLL_INTERVAL_MS);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    if (!subscriptions.size && timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    return {};
+  });
+};
+
+// ==================== REGISTRATION ====================
+
+// Registers the sandbox, snapshot, volume and sandbox file resources
+export const registerResources = (server: McpServer) => {
+  for (const resource of ENTITY_RESOURCES) {
+    server.resource(
+      resource.kind,
+      resourceTemplate(`daytona://${resource.kind}/{id}`, {
+        list: async ({ authInfo }) => {
+          try {
+            const entities = await resource.list(await authorize(resource.listTool, {}, authInfo), authInfo);
+            return {
+              resources: entities.map(entity => ({
+                uri: entityUri(resource.kind, entity.id),
+                name: entity.name ?? entity.id,
+                description: resource.describe(entity),
+                mimeType: JSON_MIME_TYPE
+              }))
+            };
+          } catch (error) {
+            throw resourceError(error, `Failed to list ${resource.kind} resources`);
+          }
+        }
+      }),
+      // Metadata is merged into every listed resource, so it does not describe the template
+      { mimeType: JSON_MIME_TYPE },
+      async (uri, { id }, { authInfo }) => {
+        try {
+          return jsonContents(uri, await fetchEntity(resource, decodeURIComponent(variable(id)), authInfo));
+        } catch (error) {
+          throw resourceError(error, `Failed to read ${uri}`);
+        }
+      }
+    );
+  }
+
+  server.resource(
+    "sandbox-file",
+    resourceTemplate("daytona://sandbox/{id}/file/{+path}", { list: undefined }),
+    { description: "A file in a sandbox, addressed by its absolute path without the leading slash" },
+    async (uri, { id, path }, { authInfo }) => {
+      const sandboxId = decodeURIComponent(variable(id));
+      try {
+        return await readSandboxFile(uri, sandboxId, `/${decodeURIComponent(variable(path))}`, authInfo);
+      } catch (error) {
+        throw resourceError(error, `Failed to read ${uri}`);
+      }
+    }
+  );
+
+  handleSubscriptions(server);
+};
@@ -0,0 +1,110 @@
+import { CircuitOpenError } from "@/lib/resilience";
+import { maskUrlCredentials } from "@/lib/urls";
+
+// Machine-readable error codes for the HTTP statuses the Daytona API returns
+const errorCode = (status?: number) => {
+  if (status === undefined) return "NO_RESPONSE";
+  if (status === 400) return "BAD_REQUEST";
+  if (status === 401) return "UNAUTHORIZED";
+  if (status === 403) return "FORBIDDEN";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 409) return "CONFLICT";
+  if (status === 422) return "UNPROCESSABLE_ENTITY";
+  if (status === 429) return "RATE_LIMITED";
+  if (status >= 500) return "UPSTREAM_ERROR";
+  return "REQUEST_FAILED";
+};
+
+// Error result with a machine-readable code, also returned for failures that
+// never reach the Daytona API such as denied calls
+export const toolError = (code: string, message: string, status?: number, details?: Record<string, any>) => {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `## Error\n\n${message}`
+      }
+    ],
+    structuredContent: {
+      error: {
+        code,
+        status,
+        message,
+        details
+      }
+    },
+    isError: true
+  };
+};
+
+// Error handling utility
+// Any secrets given and the credentials of URLs are masked in the message, and
+// only the message is logged since the raw error holds the request body
+export const handleApiError = (error: any, defaultMessage = "API request failed", secrets: (string | undefined)[] = []) => {
+  const redact = (text: string) => maskUrlCredentials(secrets.reduce<string>(
+    (result, secret) => secret ? result.split(secret).join("***") : result,
+    text
+  ));
+
+  // Aborted requests and waits of tool calls the client cancelled
+  if (error?.code === "ERR_CANCELED" || error?.name === "AbortError") {
+    return toolError("CANCELLED", `${defaultMessage}: the tool call was cancelled`);
+  }
+
+  // Requests not sent while the Daytona API keeps failing
+  if (error instanceof CircuitOpenError) {
+    return toolError("CIRCUIT_OPEN", `${defaultMessage}: ${error.message}`, 503, { retryAfter: error.retryAfter });
+  }
+
+  let errorMessage = defaultMessage;
+  let code = "REQUEST_FAILED";
+  if (error.response) {
+    errorMessage = `${defaultMessage}: ${error.response.status} - ${error.response.data?.message || JSON.stringify(error.response.data)}`;
+    code = errorCode(error.response.status);
+  } else if (error.request) {
+    errorMessage = `${defaultMessage}: ${error.code === "ECONNABORTED" ? error.message : "No response received"}`;
+    code = errorCode();
+  } else {
+    errorMessage = `${defaultMessage}: ${error.message}`;
+  }
+  if (error.config?.retries) {
+    errorMessage += ` (after ${error.config.retries} ${error.config.retries === 1 ? "retry" : "retries"})`;
+  }
+  errorMessage = redact(errorMessage);
+
+  console.error("Daytona API error:", secrets.length ? errorMessage : error);
+
+  return toolError(code, errorMessage, error.response?.status);
+};
+
+// Format response utility
+export const formatResponse = (title: string, data: any) => {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `## ${title}\n\n${typeof data === 'string' ? data : JSON.stringify(data, null, 2)}`
+      }
+    ]
+  };
+};
+
+// Format response utility for tools with an output schema: a short summary for
+// the model, the payload as structured content, and the payload serialized as
+// JSON for clients that do not read structured content yet. Summaries that
+// already hold the payload, such as tables, are sent without the JSON.
+export const formatStructuredResponse = (title: string, summary: string, data: Record<string, any>, { json = true } = {}) => {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `## ${title}\n\n${summary}`
+      },
+      ...json ? [{
+        type: "text" as const,
+        text: JSON.stringify(data)
+      }] : []
+    ],
+    structuredContent: data
+  };
+};
@@ -0,0 +1,345 @@
+import { z } from "zod";
+import { TemplateSchema } from "@/lib/templates";
+import { REAPER_ACTIONS, RESOURCE_KINDS } from "@/lib/tracking";
+
+// ==================== OUTPUT SCHEMAS ====================
+//
+// Shapes of the structured content returned by the tools. The entity schemas
+// only require their identifiers and pass unknown fields through, so a newer
+// Daytona API response never fails validation.
+
+export const ApiErrorSchema = z.object({
+  code: z.string({
+    description: "Machine-readable error code, e.g. NOT_FOUND or RATE_LIMITED"
+  }),
+  status: z.number({
+    description: "HTTP status returned by the Daytona API, if a response was received"
+  }).optional(),
+  message: z.string({
+    description: "Human-readable error message"
+  }),
+  details: z.record(z.any(), {
+    description: "Additional data about the error, such as the token needed to confirm a call"
+  }).optional()
+});
+
+export const ApiKeySchema = z.object({
+  name: z.string(),
+  value: z.string().nullish(),
+  permissions: z.array(z.string()).nullish(),
+  createdAt: z.string().nullish(),
+  expiresAt: z.string().nullish(),
+  lastUsedAt: z.string().nullish()
+}).passthrough();
+
+export const OrganizationSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  createdBy: z.string().nullish(),
+  personal: z.boolean().nullish(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish()
+}).passthrough();
+
+export const OrganizationMemberSchema = z.object({
+  userId: z.string(),
+  organizationId: z.string().nullish(),
+  name: z.string().nullish(),
+  email: z.string().nullish(),
+  role: z.string().nullish()
+}).passthrough();
+
+export const OrganizationRoleSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  permissions: z.array(z.string()).nullish()
+}).passthrough();
+
+export const SandboxSchema = z.object({
+  id: z.string(),
+  organizationId: z.string().nullish(),
+  snapshot: z.string().nullish(),
+  user: z.string().nullish(),
+  env: z.record(z.string()).nullish(),
+  labels: z.record(z.string()).nullish(),
+  public: z.boolean().nullish(),
+  target: z.string().nullish(),
+  class: z.string().nullish(),
+  cpu: z.number().nullish(),
+  gpu: z.number().nullish(),
+  memory: z.number().nullish(),
+  disk: z.number().nullish(),
+  state: z.string().nullish(),
+  errorReason: z.string().nullish(),
+  autoStopInterval: z.number().nullish(),
+  autoArchiveInterval: z.number().nullish(),
+  volumes: z.array(z.object({
+    volumeId: z.string(),
+    mountPath: z.string()
+  }).passthrough()).nullish(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish()
+}).passthrough();
+export type Sandbox = z.infer<typeof SandboxSchema>;
+
+export const SnapshotSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  imageName: z.string().nullish(),
+  state: z.string().nullish(),
+  size: z.number().nullish(),
+  entrypoint: z.array(z.string()).nullish(),
+  general: z.boolean().nullish(),
+  cpu: z.number().nullish(),
+  gpu: z.number().nullish(),
+  mem: z.number().nullish(),
+  disk: z.number().nullish(),
+  errorReason: z.string().nullish(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish()
+}).passthrough();
+
+export const VolumeSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  organizationId: z.string().nullish(),
+  state: z.string().nullish(),
+  errorReason: z.string().nullish(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish(),
+  lastUsedAt: z.string().nullish()
+}).passthrough();
+
+export const SessionCommandSchema = z.object({
+  id: z.string(),
+  command: z.string().nullish(),
+  exitCode: z.number().nullish()
+}).passthrough();
+
+export const SessionSchema = z.object({
+  sessionId: z.string(),
+  commands: z.array(SessionCommandSchema).nullish()
+}).passthrough();
+
+export const WaitResultSchema = z.object({
+  state: z.string({
+    description: "Last state seen"
+  }),
+  errorReason: z.string().nullish(),
+  reached: z.boolean({
+    description: "Whether the target state was reached"
+  }),
+  timedOut: z.boolean(),
+  elapsed: z.number({
+    description: "Seconds spent waiting"
+  })
+}).describe("Result of waiting for a state, when the tool waited");
+
+// With SDK validation, a failed call must still match the tool's output schema,
+// so every data key is optional next to the `error` key
+type OutputShape<T extends z.ZodRawShape> = { [K in keyof T]: z.ZodOptional<T[K]> } & { error: z.ZodOptional<typeof ApiErrorSchema> };
+
+export const outputShape = <T extends z.ZodRawShape>(shape: T): OutputShape<T> => {
+  const optionalShape = Object.fromEntries(
+    Object.entries(shape).map(([key, schema]) => [key, schema.optional()])
+  );
+  return { ...optionalShape, error: ApiErrorSchema.optional() } as OutputShape<T>;
+};
+
+// Result of an action that has no entity to return, such as a deletion
+export const ActionResultOutput = outputShape({
+  id: z.string({
+    description: "ID or name of the affected resource"
+  }),
+  action: z.string({
+    description: "The action that was performed, e.g. deleted or started"
+  }),
+  wait: WaitResultSchema
+});
+
+export const ApiKeyOutput = outputShape({ apiKey: ApiKeySchema });
+export const ApiKeyListOutput = outputShape({ apiKeys: z.array(ApiKeySchema) });
+
+export const OrganizationOutput = outputShape({ organization: OrganizationSchema });
+export const OrganizationListOutput = outputShape({ organizations: z.array(OrganizationSchema) });
+export const OrganizationUsageOutput = outputShape({ usage: z.record(z.any()) });
+export const OrganizationMemberOutput = outputShape({ member: OrganizationMemberSchema });
+export const OrganizationMemberListOutput = outputShape({ members: z.array(OrganizationMemberSchema) });
+export const OrganizationRoleOutput = outputShape({ role: OrganizationRoleSchema });
+export const OrganizationRoleListOutput = outputShape({ roles: z.array(OrganizationRoleSchema) });
+
+export const SandboxOutput = outputShape({ sandbox: SandboxSchema, wait: WaitResultSchema });
+// Page of a list, with the total after filtering
+const pageShape = {
+  total: z.number({
+    description: "Number of items matching the filters"
+  }),
+  page: z.number(),
+  totalPages: z.number(),
+  hasMore: z.boolean({
+    description: "Whether there are more pages after this one"
+  }),
+  nextPage: z.number({
+    description: "Page to request for more items"
+  })
+};
+
+export const SandboxListOutput = outputShape({ sandboxes: z.array(SandboxSchema), ...pageShape });
+
+export const BulkActionOutput = outputShape({
+  action: z.string(),
+  dryRun: z.boolean(),
+  total: z.number({
+    description: "Number of sandboxes selected"
+  }),
+  succeeded: z.number(),
+  failed: z.number(),
+  skipped: z.number({
+    description: "Sandboxes already in the target state"
+  }),
+  cancelled: z.number(),
+  results: z.array(z.object({
+    sandboxId: z.string(),
+    state: z.string({
+      description: "State of the sandbox before the action"
+    }).optional(),
+    status: z.enum(["succeeded", "failed", "skipped", "planned", "cancelled"]),
+    error: z.string().optional()
+  }))
+});
+
+export const SandboxLabelsOutput = outputShape({
+  sandboxId: z.string(),
+  labels: z.record(z.string())
+});
+export const PreviewUrlOutput = outputShape({
+  sandboxId: z.string(),
+  port: z.number(),
+  url: z.string({
+    description: "Preview URL of the port"
+  }),
+  token: z.string({
+    description: "Token for private previews, sent as the X-Daytona-Preview-Token header"
+  }).nullish()
+});
+export const PortHealthOutput = outputShape({
+  sandboxId: z.string(),
+  port: z.number(),
+  url: z.string(),
+  ready: z.boolean({
+    description: "Whether the port answered"
+  }),
+  status: z.number({
+    description: "HTTP status of the last check, if it got a response"
+  }).optional(),
+  timedOut: z.boolean(),
+  elapsed: z.number({
+    description: "Seconds spent waiting"
+  })
+});
+
+export const TemplateListOutput = outputShape({
+  templates: z.array(TemplateSchema),
+  invalid: z.array(z.object({
+    file: z.string(),
+    message: z.string()
+  }), {
+    description: "Template files that could not be read"
+  })
+});
+export const ProvisionOutput = outputShape({
+  template: z.string(),
+  sandbox: SandboxSchema,
+  createdVolumes: z.array(z.object({
+    id: z.string(),
+    name: z.string()
+  })),
+  steps: z.array(z.string(), {
+    description: "The steps that were run"
+  })
+});
+export const SessionResourcesOutput = outputShape({
+  sessionId: z.string({
+    description: "MCP session the resources are tracked for, derived from the caller on the stateless HTTP endpoint"
+  }),
+  resources: z.array(z.object({
+    kind: z.enum(RESOURCE_KINDS),
+    id: z.string(),
+    sandboxId: z.string().optional(),
+    sessionId: z.string().optional(),
+    organizationId: z.string().optional(),
+    createdBy: z.string({
+      description: "Tool that created the resource"
+    }),
+    createdAt: z.string()
+  })),
+  reaper: z.object({
+    action: z.enum(REAPER_ACTIONS, {
+      description: "What happens to the sandboxes once the session is closed or idle"
+    }),
+    idleMinutes: z.number({
+      description: "Minutes without a tool call after which the session is idle"
+    })
+  })
+});
+
+export const SnapshotOutput = outputShape({
+  snapshot: SnapshotSchema,
+  wait: WaitResultSchema,
+  dockerfile: z.string({
+    description: "The Dockerfile the image was built from, when the snapshot was built"
+  }),
+  buildLogs: z.string({
+    description: "End of the build logs, when they were followed"
+  })
+});
+export const SnapshotListOutput = outputShape({ snapshots: z.array(SnapshotSchema), ...pageShape });
+
+export const SnapshotBuildLogsOutput = outputShape({ logs: z.string() });
+
+export const VolumeOutput = outputShape({ volume: VolumeSchema, wait: WaitResultSchema });
+export const VolumeListOutput = outputShape({ volumes: z.array(VolumeSchema) });
+
+export const CommandResultOutput = outputShape({
+  exitCode: z.number(),
+  result: z.string()
+});
+
+export const SessionOutput = outputShape({ session: SessionSchema });
+export const SessionListOutput = outputShape({ sessions: z.array(SessionSchema) });
+export const SessionCommandOutput = outputShape({ command: SessionCommandSchema });
+export const SessionExecuteOutput = outputShape({
+  cmdId: z.string(),
+  output: z.string().nullish(),
+  exitCode: z.number().nullish()
+});
+export const SessionCommandLogsOutput = outputShape({ logs: z.string() });
+export const CodeRunOutput = outputShape({
+  language: z.string(),
+  stdout: z.string(),
+  stderr: z.string(),
+  result: z.string({
+    description: "Representation of the value of the last expression, if any"
+  }).nullish(),
+  exception: z.string({
+    description: "Traceback of an exception raised by the code, if any"
+  }).nullish(),
+  artifacts: z.array(z.object({
+    mimeType: z.string()
+  }), {
+    description: "Generated artifacts such as charts, returned as image content"
+  })
+});
+
+export const SessionStreamOutput = outputShape({
+  sessionId: z.string(),
+  cmdId: z.string(),
+  exitCode: z.number().nullish(),
+  stdout: z.string({
+    description: "End of the command's stdout. The full output is sent as notifications"
+  }),
+  stderr: z.string({
+    description: "End of the command's stderr. The full output is sent as notifications"
+  })
+});
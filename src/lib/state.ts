@@ -0,0 +1,151 @@
+import { createClient } from "redis";
+
+// ==================== SETTINGS ====================
+
+// Redis used by the SSE transport and the state store, as on Vercel KV
+export const redisUrl = process.env.REDIS_URL || process.env.KV_URL;
+
+const KEY_PREFIX = "daytona-mcp:";
+// Reconnect attempts before Redis is given up on until the store is used again
+const REDIS_RECONNECTS = 5;
+
+// ==================== STATE STORE ====================
+
+// Small key-value store for state that has to outlive a request, such as the
+// sandboxes, sessions and commands started by an MCP session. Values are
+// stored as JSON. With Redis the state is shared by all instances of a
+// deployment, without it the state lives in the memory of one instance.
+export interface StateStore {
+  // Value of a key, undefined if it is missing or expired
+  get<T>(key: string): Promise<T | undefined>;
+  // Sets a key, which expires after `ttlSeconds` if given
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Fields of the map stored under a key, empty if it is missing or expired
+  entries<T>(key: string): Promise<Record<string, T>>;
+  // Sets a field of the map under a key. With `ttlSeconds` the whole map
+  // expires after that time, counted from the last update
+  put<T>(key: string, field: string, value: T, ttlSeconds?: number): Promise<void>;
+  remove(key: string, field: string): Promise<void>;
+}
+
+// ==================== IN-MEMORY STORE ====================
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+const expiry = (ttlSeconds?: number) => ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined;
+
+const createMemoryStore = (): StateStore => {
+  const entries = new Map<string, MemoryEntry>();
+
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Expired entries are dropped on writes, so keys that are never read again do not pile up
+  const prune = () => {
+    for (const key of entries.keys()) live(key);
+  };
+
+  const fields = (key: string) => {
+    const value = live(key)?.value;
+    return value instanceof Map ? value as Map<string, unknown> : undefined;
+  };
+
+  // Values are copied, so callers cannot change the stored state by accident
+  const copy = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+  return {
+    get: async <T>(key: string) => {
+      const value = live(key)?.value;
+      return value instanceof Map ? undefined : copy(value as T);
+    },
+    set: async (key, value, ttlSeconds) => {
+      prune();
+      entries.set(key, { value: copy(value), expiresAt: expiry(ttlSeconds) });
+    },
+    delete: async key => {
+      entries.delete(key);
+    },
+    entries: async <T>(key: string) =>
+      Object.fromEntries([...fields(key) ?? []].map(([field, value]) => [field, copy(value as T)])),
+    put: async (key, field, value, ttlSeconds) => {
+      prune();
+      const map = fields(key) ?? new Map<string, unknown>();
+      map.set(field, copy(value));
+      entries.set(key, { value: map, expiresAt: expiry(ttlSeconds) ?? live(key)?.expiresAt });
+    },
+    remove: async (key, field) => {
+      const map = fields(key);
+      map?.delete(field);
+      if (map && !map.size) entries.delete(key);
+    }
+  };
+};
+
+// ==================== REDIS STORE ====================
+
+const createRedisStore = (url: string): StateStore => {
+  let connection: Promise<ReturnType<typeof createClient>> | undefined;
+
+  // Connects on first use, and again once the client gave up reconnecting.
+  // Commands fail instead of waiting while Redis is unreachable.
+  const redis = () => connection ??= (async () => {
+    const client = createClient({
+      url,
+      disableOfflineQueue: true,
+      socket: {
+        reconnectStrategy: (retries, cause) => retries < REDIS_RECONNECTS ? Math.min(100 * 2 ** retries, 2000) : cause
+      }
+    });
+    client.on("error", error => console.error("Redis error", error));
+    client.on("end", () => connection = undefined);
+    try {
+      await client.connect();
+      return client;
+    } catch (error) {
+      connection = undefined;
+      if (client.isOpen) client.destroy();
+      throw error;
+    }
+  })();
+
+  const parse = <T>(value: unknown) => value == null ? undefined : JSON.parse(String(value)) as T;
+
+  return {
+    get: async <T>(key: string) => parse<T>(await (await redis()).get(KEY_PREFIX + key)),
+    set: async (key, value, ttlSeconds) => {
+      await (await redis()).set(KEY_PREFIX + key, JSON.stringify(value), ttlSeconds ? { EX: ttlSeconds } : undefined);
+    },
+    delete: async key => {
+      await (await redis()).del(KEY_PREFIX + key);
+    },
+    entries: async <T>(key: string) => {
+      const fields = await (await redis()).hGetAll(KEY_PREFIX + key);
+      return Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, parse<T>(value) as T]));
+    },
+    put: async (key, field, value, ttlSeconds) => {
+      const client = await redis();
+      await client.hSet(KEY_PREFIX + key, field, JSON.stringify(value));
+      if (ttlSeconds) {
+        await client.expire(KEY_PREFIX + key, ttlSeconds);
+      }
+    },
+    remove: async (key, field) => {
+      await (await redis()).hDel(KEY_PREFIX + key, field);
+    }
+  };
+};
+
+let store: StateStore | undefined;
+
+// The store of this deployment, in Redis if REDIS_URL or KV_URL is set
+export const stateStore = () => store ??= redisUrl ? createRedisStore(redisUrl) : createMemoryStore();
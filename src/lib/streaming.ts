@@ -0,0 +1,167 @@
+import { AxiosInstance } from "axios";
+import { StringDecoder } from "string_decoder";
+import { ProgressExtra, sendProgress } from "@/lib/progress";
+
+// ==================== LOG STREAMS ====================
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface OutputChunk {
+  stream: OutputStream;
+  text: string;
+}
+
+// Output kept in tool results; everything is relayed as notifications, but
+// results only hold the end of each stream
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// Session command logs mark where stdout and stderr output starts with three
+// byte prefixes. Logs of older toolboxes have no prefixes and are all stdout.
+const STREAM_MARKERS: Record<number, OutputStream> = { 1: "stdout", 2: "stderr" };
+
+// Splits session command log bytes into stdout and stderr text, keeping
+// markers and multi-byte characters that span chunks intact
+export const demuxLogs = () => {
+  const decoders = { stdout: new StringDecoder("utf8"), stderr: new StringDecoder("utf8") };
+  let current: OutputStream = "stdout";
+  let pending = Buffer.alloc(0);
+
+  const decode = (bytes: Buffer, chunks: OutputChunk[]) => {
+    const text = decoders[current].write(bytes);
+    if (text) chunks.push({ stream: current, text });
+  };
+
+  return {
+    write(data: Buffer): OutputChunk[] {
+      const bytes = Buffer.concat([pending, data]);
+      const chunks: OutputChunk[] = [];
+      let start = 0;
+      let index = 0;
+
+      while (index < bytes.length) {
+        const marker = STREAM_MARKERS[bytes[index]];
+        if (marker && index + 3 > bytes.length) break;
+        if (marker && bytes[index + 1] === bytes[index] && bytes[index + 2] === bytes[index]) {
+          decode(bytes.subarray(start, index), chunks);
+          current = marker;
+          index += 3;
+          start = index;
+          continue;
+        }
+        index++;
+      }
+
+      decode(bytes.subarray(start, index), chunks);
+      pending = bytes.subarray(index);
+      return chunks;
+    },
+    end(): OutputChunk[] {
+      const chunks: OutputChunk[] = [];
+      decode(pending, chunks);
+      pending = Buffer.alloc(0);
+      for (const stream of ["stdout", "stderr"] as const) {
+        const text = decoders[stream].end();
+        if (text) chunks.push({ stream, text });
+      }
+      return chunks;
+    }
+  };
+};
+
+// Error bodies of streamed requests are streamed too. Reads them and rethrows
+// the error, so it carries the API's message like other request errors.
+export const readErrorBody = async (error: any): Promise<never> => {
+  if (error.response?.data?.[Symbol.asyncIterator]) {
+    const chunks: Buffer[] = [];
+    for await (const data of error.response.data) chunks.push(Buffer.from(data));
+    const body = Buffer.concat(chunks).toString();
+    try {
+      error.response.data = JSON.parse(body);
+    } catch {
+      error.response.data = body;
+    }
+  }
+  throw error;
+};
+
+// Relays output as progress notifications when the request has a progress
+// token, and as logging notifications otherwise
+const relayOutput = (extra: ProgressExtra, logger: string) => {
+  let progress = 0;
+  return async ({ stream, text }: OutputChunk) => {
+    progress += text.length;
+    if (!await sendProgress(extra, progress, text)) {
+      await extra.sendNotification({
+        method: "notifications/message",
+        params: { level: stream === "stderr" ? "warning" : "info", logger, data: { stream, text } }
+      });
+    }
+  };
+};
+
+// Build logs are plain text without stream markers
+const plainLogs = () => {
+  const decoder = new StringDecoder("utf8");
+  const chunks = (text: string): OutputChunk[] => text ? [{ stream: "stdout", text }] : [];
+  return {
+    write: (data: Buffer) => chunks(decoder.write(data)),
+    end: () => chunks(decoder.end())
+  };
+};
+
+const followLogs = async (
+  client: AxiosInstance,
+  logsUrl: string,
+  headers: Record<string, string>,
+  extra: ProgressExtra,
+  logger: string,
+  demuxer: ReturnType<typeof demuxLogs>
+) => {
+  const response = await client.get(logsUrl, {
+    params: { follow: true },
+    headers,
+    responseType: "stream",
+    // Followed logs stay open until the command ends
+    timeout: 0,
+    signal: extra.signal
+  }).catch(readErrorBody);
+
+  const output = { stdout: "", stderr: "" };
+  const relay = relayOutput(extra, logger);
+
+  const handle = async (chunks: OutputChunk[]) => {
+    for (const chunk of chunks) {
+      output[chunk.stream] = (output[chunk.stream] + chunk.text).slice(-MAX_OUTPUT_LENGTH);
+      await relay(chunk);
+    }
+  };
+
+  for await (const data of response.data) {
+    await handle(demuxer.write(Buffer.from(data)));
+  }
+  await handle(demuxer.end());
+
+  return output;
+};
+
+// Follows the logs of a session command until it exits or the tool call is
+// cancelled, relaying every chunk to the client. Returns the end of each stream.
+export const followCommandLogs = (
+  client: AxiosInstance,
+  logsUrl: string,
+  headers: Record<string, string>,
+  extra: ProgressExtra,
+  logger: string
+) => followLogs(client, logsUrl, headers, extra, logger, demuxLogs());
+
+// Follows the build logs of a snapshot until the build finishes, relaying them
+// like command output. Returns the end of the logs.
+export const followBuildLogs = async (
+  client: AxiosInstance,
+  snapshotId: string,
+  headers: Record<string, string>,
+  extra: ProgressExtra
+) => {
+  const output = await followLogs(client, `/snapshots/${snapshotId}/build-logs`, headers, extra, `snapshot/${snapshotId}`, plainLogs());
+  return output.stdout;
+};
@@ -0,0 +1,266 @@
+import { AxiosInstance } from "axios";
+import { readdir, readFile } from "fs/promises";
+import { basename, extname, join } from "path";
+import { parse } from "yaml";
+import { z } from "zod";
+import { configuredPolicy, evaluateCommand } from "@/lib/policy";
+import { ProgressExtra, sendProgress, withoutProgress } from "@/lib/progress";
+import { commandTimeout } from "@/lib/resilience";
+import type { Sandbox } from "@/lib/schemas";
+import { definedValues } from "@/lib/tools/define";
+import { maskUrlCredentials, stripUrlCredentials, urlCredentials } from "@/lib/urls";
+import { waitForState } from "@/lib/waiting";
+
+// ==================== TEMPLATE FORMAT ====================
+
+const SetupCommandSchema = z.union([
+  z.string(),
+  z.object({
+    command: z.string(),
+    cwd: z.string().optional(),
+    timeout: z.number({ description: "Timeout in seconds" }).optional()
+  }).strict()
+]);
+
+export const TemplateSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  snapshot: z.string({ description: "The ID or name of the snapshot used for the sandbox" }).optional(),
+  user: z.string().optional(),
+  resources: z.object({
+    cpu: z.number().optional(),
+    gpu: z.number().optional(),
+    memory: z.number({ description: "Memory in GB" }).optional(),
+    disk: z.number({ description: "Disk space in GB" }).optional()
+  }).strict().optional(),
+  env: z.record(z.string()).optional(),
+  labels: z.record(z.string()).optional(),
+  public: z.boolean().optional(),
+  autoStopInterval: z.number().optional(),
+  autoArchiveInterval: z.number().optional(),
+  volumes: z.array(z.object({
+    name: z.string({ description: "Name of the volume, created if it does not exist" }),
+    mountPath: z.string()
+  }).strict()).default([]),
+  repositories: z.array(z.object({
+    url: z.string(),
+    path: z.string(),
+    branch: z.string().optional()
+  }).strict()).default([]),
+  setup: z.array(SetupCommandSchema, {
+    description: "Commands run in order once the sandbox has started and the repositories are cloned"
+  }).default([])
+}).strict();
+
+export type Template = z.infer<typeof TemplateSchema>;
+
+const TEMPLATE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+// Seconds to wait for each created resource to become usable
+const PROVISION_WAIT_TIMEOUT = 300;
+
+// Parses a JSON or YAML template. YAML is a superset of JSON, so one parser
+// reads both.
+export const parseTemplate = (text: string, defaultName?: string) => {
+  const data = parse(text);
+  return TemplateSchema.parse(defaultName && data && typeof data === "object" && !data.name ? { ...data, name: defaultName } : data);
+};
+
+// Templates from the JSON and YAML files in DAYTONA_TEMPLATES_DIR, named after
+// their file unless they set a name. Invalid files are reported, not thrown.
+export const loadTemplates = async () => {
+  const templates: Template[] = [];
+  const invalid: { file: string; message: string }[] = [];
+
+  const directory = process.env.DAYTONA_TEMPLATES_DIR;
+  if (!directory) {
+    return { templates, invalid };
+  }
+
+  for (const file of (await readdir(directory)).sort()) {
+    if (!TEMPLATE_EXTENSIONS.includes(extname(file))) continue;
+    try {
+      templates.push(parseTemplate(await readFile(join(directory, file), "utf-8"), basename(file, extname(file))));
+    } catch (error) {
+      invalid.push({ file, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { templates, invalid };
+};
+
+// ==================== PROVISIONING ====================
+
+export class ProvisioningError extends Error {
+  constructor(
+    message: string,
+    readonly step: string,
+    readonly status: number | undefined,
+    readonly rolledBack: string[],
+    readonly rollbackErrors: string[]
+  ) {
+    super(message);
+    this.name = "ProvisioningError";
+  }
+}
+
+const setupCommand = (entry: z.infer<typeof SetupCommandSchema>) => typeof entry === "string" ? { command: entry } : entry;
+
+// Reasons the tool policy rejects a template, checked before anything is created
+export const templateViolations = (template: Template) => {
+  const commands = configuredPolicy()?.commands;
+  if (!commands) return [];
+
+  return template.setup.map(setupCommand).flatMap(({ command, cwd }) => {
+    const violation = evaluateCommand(commands, command, cwd);
+    return violation ? [`${command}: rejected by policy rule "${violation.rule}", ${violation.reason}`] : [];
+  });
+};
+
+// Creates the volumes and the sandbox of a template, clones its repositories
+// and runs its setup commands, reporting each step as progress. If a step
+// fails, everything created so far is deleted and a ProvisioningError thrown.
+export const provisionTemplate = async (
+  client: AxiosInstance,
+  template: Template,
+  headers: Record<string, string>,
+  extra: ProgressExtra,
+  labels?: Record<string, string>
+) => {
+  const steps = [
+    ...template.volumes.map(volume => `Prepare volume ${volume.name}`),
+    "Create sandbox",
+    "Wait for sandbox to start",
+    ...template.repositories.map(repository => `Clone ${stripUrlCredentials(repository.url)} into ${repository.path}`),
+    ...template.setup.map(entry => `Run ${setupCommand(entry).command}`)
+  ];
+  const completed: string[] = [];
+  const createdVolumes: { id: string; name: string }[] = [];
+  let sandbox: Sandbox | undefined;
+
+  const run = async <T>(action: () => Promise<T>) => {
+    const step = steps[completed.length];
+    await sendProgress(extra, completed.length, step, steps.length);
+    const result = await action();
+    completed.push(step);
+    return result;
+  };
+
+  try {
+    const mounts: { volumeId: string; mountPath: string }[] = [];
+    for (const volume of template.volumes) {
+      const volumeId = await run(async () => {
+        try {
+          const response = await client.get(`/volumes/by-name/${volume.name}`, { headers });
+          return response.data.id as string;
+        } catch (error: any) {
+          if (error.response?.status !== 404) throw error;
+        }
+
+        const response = await client.post("/volumes", { name: volume.name }, { headers });
+        createdVolumes.push({ id: response.data.id, name: volume.name });
+        const wait = await waitForState(
+          () => client.get(`/volumes/${response.data.id}`, { headers, signal: extra.signal }).then(res => res.data),
+          "ready",
+          { timeout: PROVISION_WAIT_TIMEOUT, extra: withoutProgress(extra), label: `Volume ${volume.name}` }
+        );
+        if (!wait.reached) throw new Error(`Volume ${volume.name} is ${wait.state}${wait.errorReason ? `: ${wait.errorReason}` : ""}`);
+        return response.data.id as string;
+      });
+      mounts.push({ volumeId, mountPath: volume.mountPath });
+    }
+
+    sandbox = await run(async () => {
+      const sandboxData = definedValues({
+        snapshot: template.snapshot,
+        user: template.user,
+        env: template.env,
+        labels: { ...template.labels, ...labels, ...configuredPolicy()?.sandboxLabels },
+        public: template.public,
+        ...template.resources,
+        autoStopInterval: template.autoStopInterval,
+        autoArchiveInterval: template.autoArchiveInterval,
+        volumes: mounts.length ? mounts : undefined
+      });
+
+      const response = await client.post<Sandbox>("/sandbox", sandboxData, { headers });
+      return response.data;
+    });
+    const sandboxId = sandbox.id;
+
+    sandbox = await run(async () => {
+      const wait = await waitForState(
+        () => client.get<Sandbox>(`/sandbox/${sandboxId}`, { headers, signal: extra.signal }).then(res => res.data),
+        "started",
+        { timeout: PROVISION_WAIT_TIMEOUT, extra: withoutProgress(extra), label: `Sandbox ${sandboxId}` }
+      );
+      if (!wait.reached) throw new Error(`Sandbox ${sandboxId} is ${wait.state}${wait.errorReason ? `: ${wait.errorReason}` : ""}`);
+      return wait.resource;
+    });
+
+    for (const repository of template.repositories) {
+      await run(() => client.post(`/toolbox/${sandboxId}/toolbox/git/clone`, repository, { headers, timeout: commandTimeout() }));
+    }
+
+    for (const entry of template.setup) {
+      const { command, cwd, timeout } = setupCommand(entry);
+      await run(async () => {
+        const response = await client.post(`/toolbox/${sandboxId}/toolbox/process/execute`, { command, cwd, timeout }, {
+          headers,
+          timeout: commandTimeout(timeout)
+        });
+        if (response.data.exitCode !== 0) {
+          throw new Error(`Exit code ${response.data.exitCode}\n\n${response.data.result}`);
+        }
+      });
+    }
+  } catch (error: any) {
+    const step = steps[completed.length];
+    const rolledBack: string[] = [];
+    const rollbackErrors: string[] = [];
+
+    // Roll back in reverse order of creation. Volumes can only be deleted once
+    // no sandbox uses them, so the sandbox has to be gone first. The rollback
+    // also runs when the call was cancelled, so it does not use its signal.
+    const rollbackExtra = { ...withoutProgress(extra), signal: new AbortController().signal };
+    if (sandbox) {
+      const sandboxId = sandbox.id;
+      try {
+        await client.delete(`/sandbox/${sandboxId}`, { headers, params: { force: true } });
+        rolledBack.push(`sandbox ${sandboxId}`);
+        if (createdVolumes.length) {
+          await waitForState(
+            () => client.get(`/sandbox/${sandboxId}`, { headers }).then(res => res.data).catch(err => {
+              if (err.response?.status === 404) return { state: "destroyed" };
+              throw err;
+            }),
+            "destroyed",
+            { timeout: PROVISION_WAIT_TIMEOUT, extra: rollbackExtra, label: `Sandbox ${sandboxId}` }
+          );
+        }
+      } catch (rollbackError: any) {
+        rollbackErrors.push(`sandbox ${sandboxId}: ${rollbackError.message}`);
+      }
+    }
+    for (const volume of createdVolumes.reverse()) {
+      try {
+        await client.delete(`/volumes/${volume.id}`, { headers });
+        rolledBack.push(`volume ${volume.name}`);
+      } catch (rollbackError: any) {
+        rollbackErrors.push(`volume ${volume.name}: ${rollbackError.message}`);
+      }
+    }
+
+    // Credentials of repository URLs are masked, as the API may echo the URL
+    const reason = maskUrlCredentials(template.repositories.flatMap(repository => urlCredentials(repository.url)).reduce<string>(
+      (text, secret) => text.split(secret).join("***"),
+      error.response
+        ? `${error.response.status} - ${error.response.data?.message || JSON.stringify(error.response.data)}`
+        : error.message
+    ));
+    throw new ProvisioningError(`Step "${step}" failed: ${reason}`, step, error.response?.status, rolledBack, rollbackErrors);
+  }
+
+  await sendProgress(extra, steps.length, "Done", steps.length);
+  return { sandbox, createdVolumes, steps: completed };
+};
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { formatStructuredResponse } from "@/lib/responses";
+import { ActionResultOutput, ApiKeyListOutput, ApiKeyOutput } from "@/lib/schemas";
+import { defineTool, ToolModule } from "@/lib/tools/define";
+
+export const apiKeyTools: ToolModule = {
+  group: "apiKeys",
+  register: server => {
+    // ==================== API KEYS MANAGEMENT ====================
+
+    defineTool(server, "listApiKeys", {
+      description: "List all API keys for the authenticated user or organization",
+      inputSchema: {},
+      outputSchema: ApiKeyListOutput,
+      errorMessage: "Failed to list API keys"
+    }, async (_args, { client, headers }) => {
+      const response = await client.get('/api-keys', { headers });
+
+      return formatStructuredResponse("API Keys", `${response.data.length} API key(s)`, { apiKeys: response.data });
+    });
+
+    defineTool(server, "createApiKey", {
+      description: "Create a new API key with specified permissions",
+      inputSchema: {
+        name: z.string({
+          description: "The name of the API key"
+        }),
+        permissions: z.array(z.string(), {
+          description: "The list of organization resource permissions assigned to the API key"
+        }),
+        expiresAt: z.string({
+          description: "When the API key expires (ISO date string)"
+        }).optional()
+      },
+      outputSchema: ApiKeyOutput,
+      errorMessage: "Failed to create API key"
+    }, async ({ name, permissions, expiresAt }, { client, headers }) => {
+      const response = await client.post('/api-keys', {
+        name,
+        permissions,
+        expiresAt
+      }, { headers });
+
+      return formatStructuredResponse("API Key Created", `API key ${response.data.name} created`, { apiKey: response.data });
+    });
+
+    defineTool(server, "getApiKey", {
+      description: "Get details of a specific API key by name",
+      inputSchema: {
+        name: z.string({
+          description: "The name of the API key"
+        })
+      },
+      outputSchema: ApiKeyOutput,
+      errorMessage: ({ name }) => `Failed to get API key ${name}`
+    }, async ({ name }, { client, headers }) => {
+      const response = await client.get(`/api-keys/${name}`, { headers });
+
+      return formatStructuredResponse(`API Key: ${name}`, `Permissions: ${(response.data.permissions || []).join(", ") || "none"}`, { apiKey: response.data });
+    });
+
+    defineTool(server, "deleteApiKey", {
+      description: "Delete an API key by name",
+      inputSchema: {
+        name: z.string({
+          description: "The name of the API key"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ name }) => `Failed to delete API key ${name}`
+    }, async ({ name }, { client, headers }) => {
+      await client.delete(`/api-keys/${name}`, { headers });
+
+      return formatStructuredResponse(`API Key Deleted: ${name}`, "API key deleted successfully", { id: name, action: "deleted" });
+    });
+
+    defineTool(server, "getCurrentApiKey", {
+      description: "Get details of the current API key being used",
+      inputSchema: {},
+      outputSchema: ApiKeyOutput,
+      errorMessage: "Failed to get current API key"
+    }, async (_args, { client, headers }) => {
+      const response = await client.get('/api-keys/current', { headers });
+
+      return formatStructuredResponse("Current API Key", `Using API key ${response.data.name}`, { apiKey: response.data });
+    });
+  }
+};
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { ensureKernel, KERNEL_LANGUAGES, KernelError, KernelResult, resetKernel, runInKernel } from "@/lib/kernels";
+import { formatStructuredResponse, toolError } from "@/lib/responses";
+import { ActionResultOutput, CodeRunOutput } from "@/lib/schemas";
+import { defineTool, ToolModule } from "@/lib/tools/define";
+
+export const codeTools: ToolModule = {
+  group: "code",
+  register: server => {
+    // ==================== SANDBOX CODE INTERPRETER ====================
+
+    defineTool(server, "runCode", {
+      description: "Run Python or JavaScript code in a persistent interpreter context of a sandbox. Variables, imports and functions persist between calls. Returns stdout, stderr, the value of the last expression, and matplotlib figures as images",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        code: z.string({
+          description: "The code to run"
+        }),
+        language: z.enum(KERNEL_LANGUAGES, {
+          description: "Language of the code. Default is python"
+        }).optional(),
+        timeout: z.number({
+          description: "Maximum number of seconds to wait for the code to finish. Default is 60"
+        }).optional()
+      },
+      outputSchema: CodeRunOutput,
+      errorMessage: ({ sandboxId, language = "python" }) => `Failed to run ${language} code in sandbox ${sandboxId}`
+    }, async ({ sandboxId, code, language = "python", timeout = 60 }, { client, headers }) => {
+      await ensureKernel(client, sandboxId, language, headers);
+      let result: KernelResult | undefined;
+      try {
+        result = await runInKernel(client, sandboxId, language, code, timeout, headers);
+      } catch (error) {
+        if (!(error instanceof KernelError)) {
+          throw error;
+        }
+        return toolError("KERNEL_FAILED", `${error.message}${error.output ? `\n\n${error.output}` : ""}`, undefined, {
+          exitCode: error.exitCode,
+          output: error.output
+        });
+      }
+      if (!result) {
+        return toolError("TIMEOUT", `Code did not finish within ${timeout}s in sandbox ${sandboxId}. It keeps running in the ${language} context, call resetContext to stop it`);
+      }
+
+      const summary = [
+        result.stdout && `### stdout\n\n${result.stdout}`,
+        result.stderr && `### stderr\n\n${result.stderr}`,
+        result.result !== null && `### Result\n\n${result.result}`,
+        result.exception && `### Exception\n\n${result.exception}`
+      ].filter(Boolean).join("\n\n") || "No output";
+
+      const response = formatStructuredResponse(result.exception ? "Code Raised an Exception" : "Code Executed", summary, {
+        language,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        result: result.result,
+        exception: result.exception,
+        artifacts: result.artifacts.map(({ mimeType }) => ({ mimeType }))
+      });
+
+      return {
+        ...response,
+        content: [
+          ...response.content,
+          ...result.artifacts.map(({ mimeType, data }) => ({ type: "image" as const, mimeType, data }))
+        ]
+      };
+    });
+
+    defineTool(server, "resetContext", {
+      description: "Clear the interpreter context used by runCode in a sandbox, stopping any code still running in it",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        language: z.enum(KERNEL_LANGUAGES, {
+          description: "Language of the context to clear (optional, clears all contexts if not provided)"
+        }).optional()
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to reset the interpreter context in sandbox ${sandboxId}`
+    }, async ({ sandboxId, language }, { client, headers }) => {
+      const languages = language ? [language] : [...KERNEL_LANGUAGES];
+
+      const cleared: string[] = [];
+      for (const kernelLanguage of languages) {
+        if (await resetKernel(client, sandboxId, kernelLanguage, headers)) {
+          cleared.push(kernelLanguage);
+        }
+      }
+
+      return formatStructuredResponse(`Context Reset in Sandbox ${sandboxId}`, cleared.length ? `Cleared the ${cleared.join(" and ")} context` : "No context was running", { id: sandboxId, action: "reset" });
+    });
+  }
+};
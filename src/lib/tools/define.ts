@@ -0,0 +1,93 @@
+import type { AxiosInstance } from "axios";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { daytonaClient } from "@/lib/daytona";
+import { McpServer } from "@/lib/interceptors";
+import { formatResponse, formatStructuredResponse, handleApiError, toolError } from "@/lib/responses";
+
+// ==================== TOOL DEFINITIONS ====================
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// What a tool callback gets besides its arguments
+export interface ToolContext {
+  // Daytona API client for the credentials of the call
+  client: AxiosInstance;
+  // The X-Daytona-Organization-ID header for the organizationId argument, empty without one
+  headers: Record<string, string>;
+  extra: ToolExtra;
+}
+
+type ToolArgs<Shape extends ZodRawShape> = z.objectOutputType<Shape, ZodTypeAny> & { organizationId?: string };
+
+export interface ToolDefinition<Shape extends ZodRawShape> {
+  description: string;
+  inputSchema: Shape;
+  outputSchema?: ZodRawShape;
+  // Tools acting within an organization take an optional organizationId,
+  // which is added to the input schema. Default is true
+  organizationScoped?: boolean;
+  // Message API errors are reported with, e.g. "Failed to get sandbox <id>"
+  errorMessage: string | ((args: ToolArgs<Shape>) => string);
+  // Argument values masked in error messages, such as passwords
+  secrets?: (args: ToolArgs<Shape>) => (string | undefined)[];
+}
+
+export const organizationIdParam = z.string({
+  description: "Organization ID (optional, uses default from API key if not provided)"
+}).optional();
+
+export const organizationHeaders = (organizationId?: string): Record<string, string> =>
+  organizationId ? { "X-Daytona-Organization-ID": organizationId } : {};
+
+// Registers a tool that runs with a Daytona client and the organization header
+// of the call. Errors thrown by the callback are returned as tool errors.
+export const defineTool = <Shape extends ZodRawShape>(
+  server: McpServer,
+  name: string,
+  definition: ToolDefinition<Shape>,
+  callback: (args: ToolArgs<Shape>, context: ToolContext) => Promise<CallToolResult>
+) => {
+  const { description, inputSchema, outputSchema, organizationScoped = true, errorMessage, secrets } = definition;
+
+  // Typed as a plain shape, since the SDK cannot infer the arguments of the extended schema
+  const schema: ZodRawShape = organizationScoped ? { ...inputSchema, organizationId: organizationIdParam } : inputSchema;
+
+  server.registerTool(
+    name,
+    { description, inputSchema: schema, outputSchema },
+    async (rawArgs, extra) => {
+      const args = rawArgs as ToolArgs<Shape>;
+      try {
+        const headers = organizationScoped ? organizationHeaders(args.organizationId) : {};
+        return await callback(args, { client: daytonaClient(extra.authInfo), headers, extra });
+      } catch (error) {
+        return handleApiError(error, typeof errorMessage === "string" ? errorMessage : errorMessage(args), secrets?.(args));
+      }
+    }
+  );
+};
+
+// Copy of a request body or query without its undefined values
+export const definedValues = (values: Record<string, any>) =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+
+// ==================== TOOL MODULES ====================
+
+// Helpers handed to tool modules, so plugins need no imports from this repository
+export const toolkit = {
+  defineTool,
+  definedValues,
+  formatResponse,
+  formatStructuredResponse,
+  toolError
+};
+
+export type Toolkit = typeof toolkit;
+
+// A group of tools that is enabled or disabled as a whole
+export interface ToolModule {
+  group: string;
+  register: (server: McpServer, toolkit: Toolkit) => void | Promise<void>;
+}
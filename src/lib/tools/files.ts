@@ -0,0 +1,389 @@
+import { z } from "zod";
+import { formatResponse } from "@/lib/responses";
+import { readErrorBody } from "@/lib/streaming";
+import { definedValues, defineTool, ToolModule } from "@/lib/tools/define";
+
+// Sandbox file paths as file:// URIs, used for language server documents and file resources
+export const toFileUri = (path: string) => `file://${path.startsWith("/") ? "" : "/"}${path}`;
+
+// Bytes returned by one readFile call; larger files are read in ranges
+const MAX_READ_LENGTH = 1024 * 1024;
+
+// Bytes of a range cut at UTF-8 character boundaries: continuation bytes at
+// the start belong to the character before the range, and a character cut
+// off at the end is left for the next range
+const utf8Range = (bytes: Buffer, atStart: boolean, atEnd: boolean) => {
+  let start = 0;
+  while (!atStart && start < Math.min(3, bytes.length) && (bytes[start] & 0xc0) === 0x80) start++;
+
+  let end = bytes.length;
+  if (!atEnd) {
+    for (let index = end - 1; index >= Math.max(start, end - 3); index--) {
+      if ((bytes[index] & 0xc0) === 0x80) continue;
+      const size = bytes[index] >= 0xf0 ? 4 : bytes[index] >= 0xe0 ? 3 : bytes[index] >= 0xc0 ? 2 : 1;
+      if (index + size > end) end = index;
+      break;
+    }
+  }
+  return { start, end };
+};
+
+export const fileTools: ToolModule = {
+  group: "files",
+  register: server => {
+    // ==================== SANDBOX FILE SYSTEM ====================
+
+    defineTool(server, "listFiles", {
+      description: "List files and directories at a path inside a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Directory path to list (defaults to the sandbox user's home directory)"
+        }).optional()
+      },
+      errorMessage: ({ sandboxId }) => `Failed to list files in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const params: Record<string, any> = {};
+      if (path) params.path = path;
+
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files`, {
+        params,
+        headers
+      });
+
+      return formatResponse(`Files in ${path || "~"} (Sandbox ${sandboxId})`, response.data);
+    });
+
+    defineTool(server, "getFileInfo", {
+      description: "Get metadata (size, mode, owner, modification time) for a file or directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file or directory"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to get info for ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files/info`, {
+        params: { path },
+        headers
+      });
+
+      return formatResponse(`File Info: ${path}`, response.data);
+    });
+
+    defineTool(server, "readFile", {
+      description: `Read the contents of a file in a sandbox, optionally limited to a byte range. At most ${MAX_READ_LENGTH} bytes are read per call, so larger files are read in ranges. utf-8 ranges are cut at character boundaries, so the bytes read can differ slightly from the range requested; continue from the end byte in the title`,
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file to read"
+        }),
+        offset: z.number({
+          description: "Byte offset to start reading from (defaults to 0)"
+        }).int().nonnegative().optional(),
+        length: z.number({
+          description: `Maximum number of bytes to read (defaults to the rest of the file, up to ${MAX_READ_LENGTH})`
+        }).int().positive().optional(),
+        encoding: z.enum(["utf-8", "base64"], {
+          description: "How to return the content: utf-8 text or base64 for binary files. Default is 'utf-8'"
+        }).optional()
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to read ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, offset = 0, length, encoding }, { client, headers }) => {
+      const limit = Math.min(length ?? MAX_READ_LENGTH, MAX_READ_LENGTH);
+      const rangeEnd = offset + limit;
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files/download`, {
+        params: { path },
+        headers: { ...headers, Range: `bytes=${offset}-${rangeEnd - 1}` },
+        responseType: "stream",
+        // Ranges that start past the end of the file are answered with 416
+        validateStatus: status => (status >= 200 && status < 300) || status === 416
+      }).catch(readErrorBody);
+
+      // Toolboxes that ignore the Range header send the whole file, which is
+      // read only up to the end of the range
+      const whole = response.status === 200;
+      const fileSize = /\/(\d+)$/.exec(response.headers["content-range"] ?? "")?.[1] ?? (whole ? response.headers["content-length"] : undefined);
+      let size = fileSize ? Number(fileSize) : undefined;
+
+      if (response.status === 416) {
+        response.data.destroy();
+        return formatResponse(`File: ${path} (bytes ${size}-${size} of ${size})`, "");
+      }
+
+      const chunks: Buffer[] = [];
+      let position = whole ? 0 : offset;
+      let ended = true;
+      for await (const data of response.data) {
+        const chunk = Buffer.from(data);
+        const from = Math.max(offset - position, 0);
+        const to = Math.min(rangeEnd - position, chunk.length);
+        if (from < to) chunks.push(chunk.subarray(from, to));
+        position += chunk.length;
+        if (position >= rangeEnd) {
+          ended = position === size;
+          break;
+        }
+      }
+      if (ended) size = position;
+
+      let bytes = Buffer.concat(chunks);
+      let start = Math.min(offset, position);
+      if (encoding !== "base64") {
+        const range = utf8Range(bytes, start === 0, start + bytes.length === size);
+        bytes = bytes.subarray(range.start, range.end);
+        start += range.start;
+      }
+      const end = start + bytes.length;
+      const content = bytes.toString(encoding === "base64" ? "base64" : "utf-8");
+
+      return formatResponse(`File: ${path} (bytes ${start}-${end} of ${size ?? "unknown"})`, content);
+    });
+
+    defineTool(server, "uploadFile", {
+      description: "Write or upload a file to a sandbox, creating or overwriting it. Binary content can be sent base64 encoded",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Destination path of the file"
+        }),
+        content: z.string({
+          description: "The file content"
+        }),
+        encoding: z.enum(["utf-8", "base64"], {
+          description: "Encoding of the content parameter. Default is 'utf-8'"
+        }).optional()
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to upload ${path} to sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, content, encoding }, { client, headers }) => {
+      const file = Buffer.from(content, encoding === "base64" ? "base64" : "utf-8");
+      const formData = new FormData();
+      formData.append("file", new Blob([file]), path.split("/").pop() || "file");
+
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/files/upload`, formData, {
+        params: { path },
+        headers: { ...headers, "Content-Type": "multipart/form-data" }
+      });
+
+      return formatResponse(`File Uploaded: ${path}`, response.data || `${file.length} bytes written to ${path}`);
+    });
+
+    defineTool(server, "downloadFile", {
+      description: "Download a whole file from a sandbox as a base64 encoded resource",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file to download"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to download ${path} from sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files/download`, {
+        params: { path },
+        headers,
+        responseType: "arraybuffer"
+      });
+
+      const file = Buffer.from(response.data);
+
+      return {
+        content: [
+          {
+            type: "resource" as const,
+            resource: {
+              uri: toFileUri(path),
+              mimeType: String(response.headers["content-type"] || "application/octet-stream"),
+              blob: file.toString("base64")
+            }
+          }
+        ]
+      };
+    });
+
+    defineTool(server, "createFolder", {
+      description: "Create a directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the directory to create"
+        }),
+        mode: z.string({
+          description: "Directory permissions in octal format, e.g. '755'. Default is '755'"
+        }).optional()
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to create folder ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, mode }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/files/folder`, {}, {
+        params: { path, mode: mode || "755" },
+        headers
+      });
+
+      return formatResponse(`Folder Created: ${path}`, response.data || `Folder ${path} created successfully`);
+    });
+
+    defineTool(server, "moveFile", {
+      description: "Move or rename a file or directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        source: z.string({
+          description: "Current path of the file or directory"
+        }),
+        destination: z.string({
+          description: "New path of the file or directory"
+        })
+      },
+      errorMessage: ({ sandboxId, source }) => `Failed to move ${source} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, source, destination }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/files/move`, {}, {
+        params: { source, destination },
+        headers
+      });
+
+      return formatResponse(`File Moved: ${source} -> ${destination}`, response.data || "File moved successfully");
+    });
+
+    defineTool(server, "deleteFile", {
+      description: "Delete a file or directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file or directory to delete"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to delete ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const response = await client.delete(`/toolbox/${sandboxId}/toolbox/files`, {
+        params: { path },
+        headers
+      });
+
+      return formatResponse(`File Deleted: ${path}`, response.data || "File deleted successfully");
+    });
+
+    defineTool(server, "setFilePermissions", {
+      description: "Set the owner, group and mode of a file or directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file or directory"
+        }),
+        owner: z.string({
+          description: "User owner of the file"
+        }).optional(),
+        group: z.string({
+          description: "Group owner of the file"
+        }).optional(),
+        mode: z.string({
+          description: "File mode in octal format, e.g. '644'"
+        }).optional()
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to set permissions on ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, owner, group, mode }, { client, headers }) => {
+      const params = definedValues({
+        path,
+        owner,
+        group,
+        mode
+      });
+
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/files/permissions`, {}, {
+        params,
+        headers
+      });
+
+      return formatResponse(`Permissions Updated: ${path}`, response.data || "Permissions updated successfully");
+    });
+
+    defineTool(server, "searchFiles", {
+      description: "Search for files whose names match a glob pattern under a directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Directory to search in"
+        }),
+        pattern: z.string({
+          description: "File name pattern, e.g. '*.ts'"
+        })
+      },
+      errorMessage: ({ sandboxId }) => `Failed to search files in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, pattern }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files/search`, {
+        params: { path, pattern },
+        headers
+      });
+
+      return formatResponse(`Files Matching ${pattern} in ${path}`, response.data);
+    });
+
+    defineTool(server, "findInFiles", {
+      description: "Find text occurrences of a pattern in the files under a directory in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Directory to search in"
+        }),
+        pattern: z.string({
+          description: "Text pattern to look for"
+        })
+      },
+      errorMessage: ({ sandboxId }) => `Failed to find text in files in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, pattern }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files/find`, {
+        params: { path, pattern },
+        headers
+      });
+
+      return formatResponse(`Matches for ${pattern} in ${path}`, response.data);
+    });
+
+    defineTool(server, "replaceInFiles", {
+      description: "Replace text in a list of files in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        files: z.array(z.string(), {
+          description: "Paths of the files to modify"
+        }),
+        pattern: z.string({
+          description: "Text pattern to replace"
+        }),
+        newValue: z.string({
+          description: "Replacement text"
+        })
+      },
+      errorMessage: ({ sandboxId }) => `Failed to replace text in files in sandbox ${sandboxId}`
+    }, async ({ sandboxId, files, pattern, newValue }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/files/replace`, {
+        files,
+        pattern,
+        newValue
+      }, { headers });
+
+      return formatResponse(`Replaced ${pattern} in ${files.length} File(s)`, response.data);
+    });
+  }
+};
@@ -0,0 +1,270 @@
+import { z } from "zod";
+import { commandTimeout } from "@/lib/resilience";
+import { formatResponse } from "@/lib/responses";
+import { definedValues, defineTool, ToolModule } from "@/lib/tools/define";
+import { stripUrlCredentials, urlCredentials } from "@/lib/urls";
+
+export const gitTools: ToolModule = {
+  group: "git",
+  register: server => {
+    // ==================== SANDBOX GIT OPERATIONS ====================
+
+    defineTool(server, "gitClone", {
+      description: "Clone a git repository into a sandbox, optionally at a specific branch or commit",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        url: z.string({
+          description: "URL of the repository to clone"
+        }),
+        path: z.string({
+          description: "Path in the sandbox to clone the repository into"
+        }),
+        branch: z.string({
+          description: "Branch to check out after cloning"
+        }).optional(),
+        commitId: z.string({
+          description: "Commit to check out after cloning (leaves the repository in detached HEAD state)"
+        }).optional(),
+        username: z.string({
+          description: "Username for authenticating with the git remote"
+        }).optional(),
+        password: z.string({
+          description: "Password or access token for authenticating with the git remote"
+        }).optional()
+      },
+      secrets: ({ url, username, password }) => [username, password, ...urlCredentials(url)],
+      errorMessage: ({ sandboxId, path }) => `Failed to clone repository into ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, url, path, branch, commitId, username, password }, { client, headers }) => {
+      const requestData = definedValues({
+        url,
+        path,
+        branch,
+        commit_id: commitId,
+        username,
+        password
+      });
+
+      await client.post(`/toolbox/${sandboxId}/toolbox/git/clone`, requestData, { headers, timeout: commandTimeout() });
+
+      return formatResponse(`Repository Cloned into ${path}`, `Cloned ${stripUrlCredentials(url)}${branch ? ` (branch ${branch})` : ""}${commitId ? ` at ${commitId}` : ""}`);
+    });
+
+    defineTool(server, "gitStatus", {
+      description: "Get the git status (current branch, ahead/behind counts and changed files) of a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to get git status of ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/git/status`, {
+        params: { path },
+        headers
+      });
+
+      return formatResponse(`Git Status: ${path}`, response.data);
+    });
+
+    defineTool(server, "gitListBranches", {
+      description: "List the branches of a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to list branches of ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/git/branches`, {
+        params: { path },
+        headers
+      });
+
+      return formatResponse(`Git Branches: ${path}`, response.data);
+    });
+
+    defineTool(server, "gitCreateBranch", {
+      description: "Create a new branch in a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        }),
+        name: z.string({
+          description: "Name of the branch to create"
+        })
+      },
+      errorMessage: ({ sandboxId, name }) => `Failed to create branch ${name} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, name }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/git/branches`, {
+        path,
+        name
+      }, { headers });
+
+      return formatResponse(`Git Branch Created: ${name}`, response.data || `Branch ${name} created successfully`);
+    });
+
+    defineTool(server, "gitCheckout", {
+      description: "Check out a branch or commit in a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        }),
+        branch: z.string({
+          description: "Branch name or commit to check out"
+        })
+      },
+      errorMessage: ({ sandboxId, branch }) => `Failed to check out ${branch} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, branch }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/git/checkout`, {
+        path,
+        branch
+      }, { headers });
+
+      return formatResponse(`Git Checkout: ${branch}`, response.data || `Checked out ${branch}`);
+    });
+
+    defineTool(server, "gitAdd", {
+      description: "Stage files for the next commit in a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        }),
+        files: z.array(z.string(), {
+          description: "Files to stage, relative to the repository root. Use [\".\"] to stage all changes"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to stage files in ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, files }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/git/add`, {
+        path,
+        files
+      }, { headers });
+
+      return formatResponse(`Git Files Staged in ${path}`, response.data || `${files.length} path(s) staged`);
+    });
+
+    defineTool(server, "gitCommit", {
+      description: "Commit the staged changes of a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        }),
+        message: z.string({
+          description: "Commit message"
+        }),
+        author: z.string({
+          description: "Name of the commit author"
+        }),
+        email: z.string({
+          description: "Email of the commit author"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to commit in ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, message, author, email }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/git/commit`, {
+        path,
+        message,
+        author,
+        email
+      }, { headers });
+
+      return formatResponse(`Git Commit Created in ${path}`, response.data);
+    });
+
+    defineTool(server, "gitPush", {
+      description: "Push local commits of a repository in a sandbox to its remote",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        }),
+        username: z.string({
+          description: "Username for authenticating with the git remote"
+        }).optional(),
+        password: z.string({
+          description: "Password or access token for authenticating with the git remote"
+        }).optional()
+      },
+      secrets: ({ username, password }) => [username, password],
+      errorMessage: ({ sandboxId, path }) => `Failed to push ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, username, password }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/git/push`, {
+        path,
+        username,
+        password
+      }, { headers, timeout: commandTimeout() });
+
+      return formatResponse(`Git Push: ${path}`, "Changes pushed successfully");
+    });
+
+    defineTool(server, "gitPull", {
+      description: "Pull changes from the remote of a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        }),
+        username: z.string({
+          description: "Username for authenticating with the git remote"
+        }).optional(),
+        password: z.string({
+          description: "Password or access token for authenticating with the git remote"
+        }).optional()
+      },
+      secrets: ({ username, password }) => [username, password],
+      errorMessage: ({ sandboxId, path }) => `Failed to pull ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path, username, password }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/git/pull`, {
+        path,
+        username,
+        password
+      }, { headers, timeout: commandTimeout() });
+
+      return formatResponse(`Git Pull: ${path}`, "Changes pulled successfully");
+    });
+
+    defineTool(server, "gitLog", {
+      description: "Get the commit history of a repository in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the repository in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to get git log of ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, path }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/git/history`, {
+        params: { path },
+        headers
+      });
+
+      return formatResponse(`Git Log: ${path}`, response.data);
+    });
+  }
+};
@@ -0,0 +1,265 @@
+import { z } from "zod";
+import { formatStructuredResponse } from "@/lib/responses";
+import { defineTool, ToolModule } from "@/lib/tools/define";
+import { toFileUri } from "@/lib/tools/files";
+
+export const lspTools: ToolModule = {
+  group: "lsp",
+  register: server => {
+    // ==================== SANDBOX LANGUAGE SERVERS ====================
+
+    defineTool(server, "lspStart", {
+      description: "Start a language server for a project in a sandbox. Must be called before the other lsp tools",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, languageId }) => `Failed to start ${languageId} language server in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/lsp/start`, {
+        languageId,
+        pathToProject
+      }, { headers });
+
+      return formatStructuredResponse(`Language Server Started: ${languageId}`, `Language server running for ${pathToProject}`, { languageId, pathToProject, running: true });
+    });
+
+    defineTool(server, "lspStop", {
+      description: "Stop a language server for a project in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, languageId }) => `Failed to stop ${languageId} language server in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/lsp/stop`, {
+        languageId,
+        pathToProject
+      }, { headers });
+
+      return formatStructuredResponse(`Language Server Stopped: ${languageId}`, `Language server stopped for ${pathToProject}`, { languageId, pathToProject, running: false });
+    });
+
+    defineTool(server, "lspDidOpen", {
+      description: "Notify the language server that a file was opened, so it tracks the document for completions and symbols",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, languageId, path }) => `Failed to open ${path} in ${languageId} language server in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject, path }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/lsp/did-open`, {
+        languageId,
+        pathToProject,
+        uri: toFileUri(path)
+      }, { headers });
+
+      return formatStructuredResponse(`Document Opened: ${path}`, `Tracking ${toFileUri(path)}`, { uri: toFileUri(path), open: true });
+    });
+
+    defineTool(server, "lspDidClose", {
+      description: "Notify the language server that a file was closed",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, languageId, path }) => `Failed to close ${path} in ${languageId} language server in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject, path }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/lsp/did-close`, {
+        languageId,
+        pathToProject,
+        uri: toFileUri(path)
+      }, { headers });
+
+      return formatStructuredResponse(`Document Closed: ${path}`, `Stopped tracking ${toFileUri(path)}`, { uri: toFileUri(path), open: false });
+    });
+
+    defineTool(server, "lspCompletions", {
+      description: "Get completion suggestions at a position in an opened file",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file in the sandbox"
+        }),
+        line: z.number({
+          description: "Zero-based line number"
+        }).int().nonnegative(),
+        character: z.number({
+          description: "Zero-based character offset within the line"
+        }).int().nonnegative(),
+        triggerCharacter: z.string({
+          description: "Character that triggered the completion, e.g. '.'"
+        }).optional()
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to get completions for ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject, path, line, character, triggerCharacter }, { client, headers }) => {
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/lsp/completions`, {
+        languageId,
+        pathToProject,
+        uri: toFileUri(path),
+        position: { line, character },
+        // LSP CompletionTriggerKind: 1 = invoked, 2 = trigger character
+        context: triggerCharacter ? { triggerKind: 2, triggerCharacter } : { triggerKind: 1 }
+      }, { headers });
+
+      return formatStructuredResponse(`Completions at ${path}:${line}:${character}`, `${(response.data?.items ?? []).length} completion(s)`, {
+        isIncomplete: response.data?.isIncomplete ?? false,
+        items: response.data?.items ?? []
+      });
+    });
+
+    defineTool(server, "lspDocumentSymbols", {
+      description: "List the symbols (classes, functions, variables) defined in a file",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        path: z.string({
+          description: "Path of the file in the sandbox"
+        })
+      },
+      errorMessage: ({ sandboxId, path }) => `Failed to get symbols of ${path} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject, path }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/lsp/document-symbols`, {
+        params: { languageId, pathToProject, uri: toFileUri(path) },
+        headers
+      });
+
+      return formatStructuredResponse(`Symbols in ${path}`, `${(response.data ?? []).length} symbol(s)`, { symbols: response.data ?? [] });
+    });
+
+    defineTool(server, "lspWorkspaceSymbols", {
+      description: "Search for symbols across the whole project by name",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        query: z.string({
+          description: "Symbol name or fragment to search for"
+        })
+      },
+      errorMessage: ({ sandboxId }) => `Failed to search workspace symbols in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject, query }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/lsp/workspacesymbols`, {
+        params: { languageId, pathToProject, query },
+        headers
+      });
+
+      return formatStructuredResponse(`Workspace Symbols Matching ${query}`, `${(response.data ?? []).length} symbol(s)`, { symbols: response.data ?? [] });
+    });
+
+    defineTool(server, "lspDefinition", {
+      description: "Find where a symbol is defined in the project, by exact symbol name",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        languageId: z.enum(["python", "typescript", "javascript"], {
+          description: "Language of the language server"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        symbol: z.string({
+          description: "Name of the symbol"
+        })
+      },
+      errorMessage: ({ sandboxId, symbol }) => `Failed to find definition of ${symbol} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, languageId, pathToProject, symbol }, { client, headers }) => {
+      // The toolbox has no textDocument/definition endpoint, so definitions are the exact-name workspace symbol matches
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/lsp/workspacesymbols`, {
+        params: { languageId, pathToProject, query: symbol },
+        headers
+      });
+
+      const definitions = (response.data ?? [])
+        .filter((match: any) => match.name === symbol)
+        .map((match: any) => ({ name: match.name, kind: match.kind, location: match.location }));
+
+      return formatStructuredResponse(`Definitions of ${symbol}`, `${definitions.length} definition(s)`, { definitions });
+    });
+
+    defineTool(server, "lspReferences", {
+      description: "Find the lines in the project that contain a symbol name as a whole word. This is a text search, not a language server query: it also matches comments, strings and unrelated symbols of the same name, and misses references through aliases or re-exports",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        pathToProject: z.string({
+          description: "Path of the project root in the sandbox"
+        }),
+        symbol: z.string({
+          description: "Name of the symbol"
+        })
+      },
+      errorMessage: ({ sandboxId, symbol }) => `Failed to find references to ${symbol} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, pathToProject, symbol }, { client, headers }) => {
+      // The toolbox has no textDocument/references endpoint, so references are text matches of the whole symbol name
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/files/find`, {
+        params: { path: pathToProject, pattern: symbol },
+        headers
+      });
+
+      const wordPattern = new RegExp(`(^|[^A-Za-z0-9_$])${symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^A-Za-z0-9_$])`);
+      const references = (response.data ?? [])
+        .filter((match: any) => wordPattern.test(match.content ?? ""))
+        .map((match: any) => ({ uri: toFileUri(match.file), line: match.line, content: match.content }));
+
+      return formatStructuredResponse(`References to ${symbol}`, `${references.length} reference(s)`, { references });
+    });
+  }
+};
@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { formatStructuredResponse } from "@/lib/responses";
+import {
+  ActionResultOutput,
+  OrganizationListOutput,
+  OrganizationMemberListOutput,
+  OrganizationMemberOutput,
+  OrganizationOutput,
+  OrganizationRoleListOutput,
+  OrganizationRoleOutput,
+  OrganizationUsageOutput
+} from "@/lib/schemas";
+import { defineTool, ToolModule } from "@/lib/tools/define";
+
+export const organizationTools: ToolModule = {
+  group: "organizations",
+  register: server => {
+    // ==================== ORGANIZATIONS MANAGEMENT ====================
+
+    defineTool(server, "listOrganizations", {
+      description: "List all organizations for the authenticated user",
+      inputSchema: {},
+      outputSchema: OrganizationListOutput,
+      organizationScoped: false,
+      errorMessage: "Failed to list organizations"
+    }, async (_args, { client }) => {
+      const response = await client.get('/organizations');
+
+      return formatStructuredResponse("Organizations", `${response.data.length} organization(s)`, { organizations: response.data });
+    });
+
+    defineTool(server, "createOrganization", {
+      description: "Create a new organization",
+      inputSchema: {
+        name: z.string({
+          description: "The name of the organization"
+        })
+      },
+      outputSchema: OrganizationOutput,
+      organizationScoped: false,
+      errorMessage: "Failed to create organization"
+    }, async ({ name }, { client }) => {
+      const response = await client.post('/organizations', { name });
+
+      return formatStructuredResponse("Organization Created", `Organization ${response.data.name} created with ID ${response.data.id}`, { organization: response.data });
+    });
+
+    defineTool(server, "getOrganization", {
+      description: "Get details of a specific organization by ID",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        })
+      },
+      outputSchema: OrganizationOutput,
+      organizationScoped: false,
+      errorMessage: ({ organizationId }) => `Failed to get organization ${organizationId}`
+    }, async ({ organizationId }, { client }) => {
+      const response = await client.get(`/organizations/${organizationId}`);
+
+      return formatStructuredResponse(`Organization: ${organizationId}`, `Organization ${response.data.name}`, { organization: response.data });
+    });
+
+    defineTool(server, "deleteOrganization", {
+      description: "Delete an organization by ID",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      organizationScoped: false,
+      errorMessage: ({ organizationId }) => `Failed to delete organization ${organizationId}`
+    }, async ({ organizationId }, { client }) => {
+      await client.delete(`/organizations/${organizationId}`);
+
+      return formatStructuredResponse(`Organization Deleted: ${organizationId}`, "Organization deleted successfully", { id: organizationId, action: "deleted" });
+    });
+
+    defineTool(server, "getOrganizationUsage", {
+      description: "Get usage overview for an organization",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        })
+      },
+      outputSchema: OrganizationUsageOutput,
+      organizationScoped: false,
+      errorMessage: ({ organizationId }) => `Failed to get usage for organization ${organizationId}`
+    }, async ({ organizationId }, { client }) => {
+      const response = await client.get(`/organizations/${organizationId}/usage`);
+
+      return formatStructuredResponse(`Organization Usage: ${organizationId}`, `Usage overview for organization ${organizationId}`, { usage: response.data });
+    });
+
+    defineTool(server, "updateOrganizationQuota", {
+      description: "Update quota settings for an organization",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        }),
+        totalCpuQuota: z.number({
+          description: "Total CPU quota"
+        }).optional(),
+        totalMemoryQuota: z.number({
+          description: "Total memory quota"
+        }).optional(),
+        totalDiskQuota: z.number({
+          description: "Total disk quota"
+        }).optional(),
+        maxCpuPerSandbox: z.number({
+          description: "Maximum CPU per sandbox"
+        }).optional(),
+        maxMemoryPerSandbox: z.number({
+          description: "Maximum memory per sandbox"
+        }).optional(),
+        maxDiskPerSandbox: z.number({
+          description: "Maximum disk per sandbox"
+        }).optional(),
+        snapshotQuota: z.number({
+          description: "Snapshot quota"
+        }).optional(),
+        maxSnapshotSize: z.number({
+          description: "Maximum snapshot size"
+        }).optional(),
+        volumeQuota: z.number({
+          description: "Volume quota"
+        }).optional()
+      },
+      outputSchema: OrganizationOutput,
+      organizationScoped: false,
+      errorMessage: ({ organizationId }) => `Failed to update quota for organization ${organizationId}`
+    }, async ({ organizationId, ...quotaSettings }, { client }) => {
+      const response = await client.patch(`/organizations/${organizationId}/quota`, quotaSettings);
+
+      return formatStructuredResponse(`Organization Quota Updated: ${organizationId}`, "Quota updated successfully", { organization: response.data || undefined });
+    });
+
+    // ==================== ORGANIZATION MEMBERS & ROLES ====================
+
+    defineTool(server, "listOrganizationMembers", {
+      description: "List all members of an organization",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        })
+      },
+      outputSchema: OrganizationMemberListOutput,
+      organizationScoped: false,
+      errorMessage: ({ organizationId }) => `Failed to list members for organization ${organizationId}`
+    }, async ({ organizationId }, { client }) => {
+      const response = await client.get(`/organizations/${organizationId}/users`);
+
+      return formatStructuredResponse(`Organization Members: ${organizationId}`, `${response.data.length} member(s)`, { members: response.data });
+    });
+
+    defineTool(server, "updateMemberRole", {
+      description: "Update role for an organization member",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        }),
+        userId: z.string({
+          description: "User ID"
+        }),
+        role: z.string({
+          description: "Organization member role (owner or member)"
+        })
+      },
+      outputSchema: OrganizationMemberOutput,
+      organizationScoped: false,
+      errorMessage: ({ userId }) => `Failed to update role for member ${userId}`
+    }, async ({ organizationId, userId, role }, { client }) => {
+      const response = await client.post(`/organizations/${organizationId}/users/${userId}/role`, { role });
+
+      return formatStructuredResponse(`Member Role Updated: ${userId}`, `Role set to ${role}`, { member: response.data || undefined });
+    });
+
+    defineTool(server, "deleteOrganizationMember", {
+      description: "Remove a member from an organization",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        }),
+        userId: z.string({
+          description: "User ID"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      organizationScoped: false,
+      errorMessage: ({ userId }) => `Failed to remove member ${userId}`
+    }, async ({ organizationId, userId }, { client }) => {
+      await client.delete(`/organizations/${organizationId}/users/${userId}`);
+
+      return formatStructuredResponse(`Member Removed: ${userId}`, "Member removed successfully", { id: userId, action: "removed" });
+    });
+
+    defineTool(server, "listOrganizationRoles", {
+      description: "List all roles in an organization",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        })
+      },
+      outputSchema: OrganizationRoleListOutput,
+      organizationScoped: false,
+      errorMessage: ({ organizationId }) => `Failed to list roles for organization ${organizationId}`
+    }, async ({ organizationId }, { client }) => {
+      const response = await client.get(`/organizations/${organizationId}/roles`);
+
+      return formatStructuredResponse(`Organization Roles: ${organizationId}`, `${response.data.length} role(s)`, { roles: response.data });
+    });
+
+    defineTool(server, "createOrganizationRole", {
+      description: "Create a new role in an organization",
+      inputSchema: {
+        organizationId: z.string({
+          description: "Organization ID"
+        }),
+        name: z.string({
+          description: "The name of the role"
+        }),
+        description: z.string({
+          description: "The description of the role"
+        }),
+        permissions: z.array(z.string(), {
+          description: "The list of permissions assigned to the role"
+        })
+      },
+      outputSchema: OrganizationRoleOutput,
+      organizationScoped: false,
+      errorMessage: ({ name }) => `Failed to create role ${name}`
+    }, async ({ organizationId, name, description, permissions }, { client }) => {
+      const response = await client.post(`/organizations/${organizationId}/roles`, {
+        name,
+        description,
+        permissions
+      });
+
+      return formatStructuredResponse(`Role Created: ${name}`, `Role ${name} created with ID ${response.data.id}`, { role: response.data });
+    });
+  }
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { commandTimeout } from "@/lib/resilience";
+import { formatStructuredResponse } from "@/lib/responses";
+import { CommandResultOutput } from "@/lib/schemas";
+import { definedValues, defineTool, ToolModule } from "@/lib/tools/define";
+
+export const processTools: ToolModule = {
+  group: "process",
+  register: server => {
+    // ==================== SANDBOX COMMAND EXECUTION ====================
+
+    defineTool(server, "executeCommand", {
+      description: "Execute a command synchronously in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        command: z.string({
+          description: "The command to execute"
+        }),
+        cwd: z.string({
+          description: "Current working directory"
+        }).optional(),
+        timeout: z.number({
+          description: "Timeout in seconds, defaults to 10 seconds"
+        }).optional()
+      },
+      outputSchema: CommandResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to execute command in sandbox ${sandboxId}`
+    }, async ({ sandboxId, command, cwd, timeout }, { client, headers }) => {
+      const requestData = definedValues({
+        command,
+        cwd,
+        timeout
+      });
+
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/process/execute`, requestData, {
+        headers,
+        timeout: commandTimeout(timeout)
+      });
+
+      return formatStructuredResponse(`Command Executed in Sandbox ${sandboxId}`, `Exit code ${response.data.exitCode}\n\n${response.data.result}`, {
+        exitCode: response.data.exitCode,
+        result: response.data.result
+      });
+    });
+  }
+};
@@ -0,0 +1,86 @@
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import { McpServer } from "@/lib/interceptors";
+import { apiKeyTools } from "@/lib/tools/apiKeys";
+import { codeTools } from "@/lib/tools/code";
+import { ToolModule, toolkit } from "@/lib/tools/define";
+import { fileTools } from "@/lib/tools/files";
+import { gitTools } from "@/lib/tools/git";
+import { lspTools } from "@/lib/tools/lsp";
+import { organizationTools } from "@/lib/tools/organizations";
+import { processTools } from "@/lib/tools/process";
+import { sandboxTools } from "@/lib/tools/sandboxes";
+import { sessionTools } from "@/lib/tools/sessions";
+import { snapshotTools } from "@/lib/tools/snapshots";
+import { volumeTools } from "@/lib/tools/volumes";
+
+// ==================== TOOL REGISTRY ====================
+
+// Built-in tool modules, in the order their tools are listed
+export const TOOL_MODULES: ToolModule[] = [
+  apiKeyTools,
+  organizationTools,
+  sandboxTools,
+  snapshotTools,
+  volumeTools,
+  processTools,
+  fileTools,
+  sessionTools,
+  codeTools,
+  gitTools,
+  lspTools
+];
+
+const listSetting = (value?: string) => (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+
+// Tool groups to register, e.g. "sandboxes,process,files". All groups are
+// registered when DAYTONA_TOOL_GROUPS is not set.
+const enabledGroups = listSetting(process.env.DAYTONA_TOOL_GROUPS);
+
+const groupEnabled = (group: string) => !enabledGroups.length || enabledGroups.includes(group);
+
+// ==================== PLUGINS ====================
+
+// Packages or file paths of modules contributing extra tools. A plugin's
+// default export is a tool module or a list of them.
+const pluginSpecifiers = listSetting(process.env.DAYTONA_TOOL_PLUGINS);
+
+const isToolModule = (value: any): value is ToolModule =>
+  typeof value?.group === "string" && typeof value?.register === "function";
+
+const importPlugin = async (specifier: string): Promise<ToolModule[]> => {
+  const url = specifier.startsWith(".") || specifier.startsWith("/")
+    ? pathToFileURL(resolve(process.cwd(), specifier)).href
+    : specifier;
+  // Plugins are resolved at runtime, not bundled with the route
+  const plugin = await import(/* webpackIgnore: true */ url);
+
+  const exported = plugin.default ?? plugin.tools;
+  const modules = Array.isArray(exported) ? exported : [exported];
+  if (!modules.length || !modules.every(isToolModule)) {
+    throw new Error(`Tool plugin ${specifier} must export a tool module with a group and a register function, or a list of them`);
+  }
+  return modules;
+};
+
+let plugins: Promise<ToolModule[]> | undefined;
+
+// Plugins are imported once, when the first MCP server is initialized
+const loadPlugins = () => plugins ??= Promise.all(pluginSpecifiers.map(importPlugin)).then(lists => {
+  const modules = lists.flat();
+  const known = new Set([...TOOL_MODULES, ...modules].map(module => module.group));
+  const unknown = enabledGroups.filter(group => !known.has(group));
+  if (unknown.length) {
+    console.warn(`DAYTONA_TOOL_GROUPS names unknown tool groups: ${unknown.join(", ")}`);
+  }
+  return modules;
+});
+
+// Registers the tools of the enabled built-in and plugin tool modules
+export const registerTools = async (server: McpServer) => {
+  for (const module of [...TOOL_MODULES, ...await loadPlugins()]) {
+    if (groupEnabled(module.group)) {
+      await module.register(server, toolkit);
+    }
+  }
+};
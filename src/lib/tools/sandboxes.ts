@@ -0,0 +1,698 @@
+import { z } from "zod";
+import {
+  BULK_ACTIONS,
+  BulkAction,
+  BulkResult,
+  countResults,
+  DEFAULT_BULK_CONCURRENCY,
+  MAX_BULK_CONCURRENCY,
+  runBulkAction,
+  selectSandboxes
+} from "@/lib/bulk";
+import {
+  createdBetween,
+  createdParams,
+  describePage,
+  lastUpdatedBefore,
+  listParams,
+  paginate,
+  SANDBOX_CLASSES,
+  SANDBOX_COMPACT_FIELDS,
+  SANDBOX_SORT_FIELDS,
+  updatedParams
+} from "@/lib/listing";
+import { formatStructuredResponse, toolError } from "@/lib/responses";
+import {
+  ActionResultOutput,
+  BulkActionOutput,
+  PortHealthOutput,
+  PreviewUrlOutput,
+  ProvisionOutput,
+  SandboxLabelsOutput,
+  SandboxListOutput,
+  SandboxOutput,
+  SessionResourcesOutput,
+  TemplateListOutput
+} from "@/lib/schemas";
+import {
+  loadTemplates,
+  parseTemplate,
+  ProvisioningError,
+  provisionTemplate,
+  Template,
+  templateViolations
+} from "@/lib/templates";
+import { definedValues, defineTool, ToolModule } from "@/lib/tools/define";
+import { resolveVolumeId } from "@/lib/tools/volumes";
+import { REAPER_IDLE_MINUTES, reaperAction, sessionResources, trackingKey } from "@/lib/tracking";
+import {
+  DEFAULT_WAIT_TIMEOUT,
+  describeWait,
+  SANDBOX_TARGET_STATES,
+  waitDetails,
+  waitForState,
+  waitForUrl,
+  waitParams
+} from "@/lib/waiting";
+
+export const sandboxTools: ToolModule = {
+  group: "sandboxes",
+  register: server => {
+    // ==================== SANDBOX MANAGEMENT ====================
+
+    defineTool(server, "listSandboxes", {
+      description: "List sandboxes, filtered, sorted and paginated. Use fields or the table format to keep large lists short",
+      inputSchema: {
+        verbose: z.boolean({
+          description: "Include verbose output"
+        }).optional(),
+        labels: z.string({
+          description: "JSON encoded labels to filter by, e.g. {\"label1\": \"value1\", \"label2\": \"value2\"}"
+        }).optional(),
+        state: z.array(z.string(), {
+          description: "Only include sandboxes in one of these states, e.g. started or stopped"
+        }).optional(),
+        snapshot: z.string({
+          description: "Only include sandboxes created from this snapshot"
+        }).optional(),
+        class: z.enum(SANDBOX_CLASSES, {
+          description: "Only include sandboxes of this resource class"
+        }).optional(),
+        ...createdParams,
+        ...updatedParams,
+        ...listParams(SANDBOX_SORT_FIELDS, SANDBOX_COMPACT_FIELDS)
+      },
+      outputSchema: SandboxListOutput,
+      errorMessage: "Failed to list sandboxes"
+    }, async ({ verbose, labels, state, snapshot, class: sandboxClass, createdAfter, createdBefore, updatedBefore, ...options }, { client, headers }) => {
+      const params: Record<string, any> = { verbose: verbose || false };
+      if (labels) params.labels = labels;
+
+      const response = await client.get('/sandbox', {
+        params,
+        headers
+      });
+
+      const sandboxes = (response.data as any[]).filter(sandbox =>
+        (!state?.length || state.includes(sandbox.state)) &&
+        (!snapshot || sandbox.snapshot === snapshot) &&
+        (!sandboxClass || sandbox.class === sandboxClass) &&
+        createdBetween(sandbox, createdAfter, createdBefore) &&
+        lastUpdatedBefore(sandbox, updatedBefore)
+      );
+      const result = paginate(sandboxes, options, SANDBOX_COMPACT_FIELDS);
+      const { items, fields, remaining, ...page } = result;
+
+      return formatStructuredResponse("Sandboxes", describePage("sandbox(es)", result, options.format), { sandboxes: items, ...page }, {
+        json: options.format !== "table"
+      });
+    });
+
+    defineTool(server, "getSandbox", {
+      description: "Get detailed information about a specific sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        verbose: z.boolean({
+          description: "Include verbose output"
+        }).optional()
+      },
+      outputSchema: SandboxOutput,
+      errorMessage: ({ sandboxId }) => `Failed to get sandbox ${sandboxId}`
+    }, async ({ sandboxId, verbose }, { client, headers }) => {
+      const params: Record<string, any> = { verbose: verbose || false };
+
+      const response = await client.get(`/sandbox/${sandboxId}`, {
+        params,
+        headers
+      });
+
+      return formatStructuredResponse(`Sandbox: ${sandboxId}`, `State: ${response.data.state}`, { sandbox: response.data });
+    });
+
+    defineTool(server, "createSandbox", {
+      description: "Create a new sandbox with customizable parameters",
+      inputSchema: {
+        snapshot: z.string({
+          description: "The ID or name of the snapshot used for the sandbox. Default is 'daytonaio/sandbox:0.3.0'"
+        }),
+        user: z.string({
+          description: "The user associated with the project"
+        }).optional(),
+        env: z.record(z.string(), {
+          description: "Environment variables for the sandbox"
+        }).optional(),
+        labels: z.record(z.string(), {
+          description: "Labels for the sandbox"
+        }).optional(),
+        public: z.boolean({
+          description: "Whether the sandbox http preview is publicly accessible"
+        }).optional(),
+        cpu: z.number({
+          description: "CPU cores allocated to the sandbox"
+        }).optional(),
+        gpu: z.number({
+          description: "GPU units allocated to the sandbox"
+        }).optional(),
+        memory: z.number({
+          description: "Memory allocated to the sandbox in GB"
+        }).optional(),
+        disk: z.number({
+          description: "Disk space allocated to the sandbox in GB"
+        }).optional(),
+        autoStopInterval: z.number({
+          description: "Auto-stop interval in minutes (0 means disabled)"
+        }).optional(),
+        autoArchiveInterval: z.number({
+          description: "Auto-archive interval in minutes (0 means the maximum interval will be used)"
+        }).optional(),
+        volumes: z.array(z.object({
+          volume: z.string({
+            description: "ID or name of the volume"
+          }),
+          mountPath: z.string({
+            description: "Absolute path in the sandbox to mount the volume at"
+          })
+        }), {
+          description: "Volumes to mount in the sandbox"
+        }).optional(),
+        ...waitParams(SANDBOX_TARGET_STATES)
+      },
+      outputSchema: SandboxOutput,
+      errorMessage: "Failed to create sandbox"
+    }, async ({ snapshot, user, env, labels, public: isPublic, cpu, gpu, memory, disk, autoStopInterval, autoArchiveInterval, volumes, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      const volumeMounts = volumes && await Promise.all(volumes.map(async ({ volume, mountPath }) => ({
+        volumeId: await resolveVolumeId(client, volume, headers),
+        mountPath
+      })));
+
+      const sandboxData = definedValues({
+        snapshot,
+        user,
+        env,
+        labels,
+        public: isPublic,
+        cpu,
+        gpu,
+        memory,
+        disk,
+        autoStopInterval,
+        autoArchiveInterval,
+        volumes: volumeMounts
+      });
+
+      const response = await client.post('/sandbox', sandboxData, { headers });
+
+      if (waitUntil) {
+        const label = `Sandbox ${response.data.id}`;
+        const wait = await waitForState(
+          () => client.get(`/sandbox/${response.data.id}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          { timeout: waitTimeout, extra, label }
+        );
+
+        return formatStructuredResponse("Sandbox Created", describeWait(label, waitUntil, wait), { sandbox: wait.resource, wait: waitDetails(wait) });
+      }
+
+      return formatStructuredResponse("Sandbox Created", `Sandbox ${response.data.id} created (state: ${response.data.state})`, { sandbox: response.data });
+    });
+
+    defineTool(server, "deleteSandbox", {
+      description: "Delete a sandbox (with force option)",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        force: z.boolean({
+          description: "Force deletion"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to delete sandbox ${sandboxId}`
+    }, async ({ sandboxId, force }, { client, headers }) => {
+      const params: Record<string, any> = { force };
+
+      await client.delete(`/sandbox/${sandboxId}`, {
+        params,
+        headers
+      });
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Deleted`, "Sandbox has been deleted", { id: sandboxId, action: "deleted" });
+    });
+
+    defineTool(server, "startSandbox", {
+      description: "Start a stopped sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        ...waitParams(SANDBOX_TARGET_STATES)
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to start sandbox ${sandboxId}`
+    }, async ({ sandboxId, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      await client.post(`/sandbox/${sandboxId}/start`, {}, { headers });
+
+      if (waitUntil) {
+        const label = `Sandbox ${sandboxId}`;
+        const wait = await waitForState(
+          () => client.get(`/sandbox/${sandboxId}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          { timeout: waitTimeout, extra, label }
+        );
+
+        return formatStructuredResponse(`Sandbox ${sandboxId} Started`, describeWait(label, waitUntil, wait), { id: sandboxId, action: "started", wait: waitDetails(wait) });
+      }
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Started`, "Sandbox has been started", { id: sandboxId, action: "started" });
+    });
+
+    defineTool(server, "stopSandbox", {
+      description: "Stop a running sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        ...waitParams(SANDBOX_TARGET_STATES)
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to stop sandbox ${sandboxId}`
+    }, async ({ sandboxId, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      await client.post(`/sandbox/${sandboxId}/stop`, {}, { headers });
+
+      if (waitUntil) {
+        const label = `Sandbox ${sandboxId}`;
+        const wait = await waitForState(
+          () => client.get(`/sandbox/${sandboxId}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          { timeout: waitTimeout, extra, label }
+        );
+
+        return formatStructuredResponse(`Sandbox ${sandboxId} Stopped`, describeWait(label, waitUntil, wait), { id: sandboxId, action: "stopped", wait: waitDetails(wait) });
+      }
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Stopped`, "Sandbox has been stopped", { id: sandboxId, action: "stopped" });
+    });
+
+    defineTool(server, "waitForSandboxState", {
+      description: "Wait until a sandbox reaches a state, polling with backoff and reporting progress. Returns early if the sandbox fails",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        state: z.enum(SANDBOX_TARGET_STATES, {
+          description: "The state to wait for"
+        }),
+        timeout: z.number({
+          description: `Maximum number of seconds to wait. Default is ${DEFAULT_WAIT_TIMEOUT}`
+        }).optional()
+      },
+      outputSchema: SandboxOutput,
+      errorMessage: ({ sandboxId, state }) => `Failed to wait for sandbox ${sandboxId} to be ${state}`
+    }, async ({ sandboxId, state, timeout }, { client, headers, extra }) => {
+      const label = `Sandbox ${sandboxId}`;
+
+      const wait = await waitForState(
+        () => client.get(`/sandbox/${sandboxId}`, { headers, signal: extra.signal }).then(res => res.data),
+        state,
+        { timeout, extra, label }
+      );
+
+      return formatStructuredResponse(`Sandbox ${sandboxId}`, describeWait(label, state, wait), { sandbox: wait.resource, wait: waitDetails(wait) });
+    });
+
+    defineTool(server, "getPreviewUrl", {
+      description: "Get the preview URL of a sandbox port, and the token needed to open it while the sandbox preview is private",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        port: z.number({
+          description: "The port in the sandbox"
+        }).int().min(1).max(65535)
+      },
+      outputSchema: PreviewUrlOutput,
+      errorMessage: ({ sandboxId, port }) => `Failed to get the preview URL of port ${port} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, port }, { client, headers }) => {
+      const response = await client.get(`/sandbox/${sandboxId}/ports/${port}/preview-url`, { headers });
+
+      return formatStructuredResponse(`Preview of Port ${port}`, response.data.token ? `${response.data.url}\n\nPrivate previews need the X-Daytona-Preview-Token: ${response.data.token} header` : response.data.url, {
+        sandboxId,
+        port,
+        url: response.data.url,
+        token: response.data.token
+      });
+    });
+
+    defineTool(server, "waitForPort", {
+      description: "Wait until a sandbox port answers HTTP requests through its preview URL, polling with backoff and reporting progress",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        port: z.number({
+          description: "The port in the sandbox"
+        }).int().min(1).max(65535),
+        path: z.string({
+          description: "Path to request, e.g. /health. Default is /"
+        }).optional(),
+        timeout: z.number({
+          description: `Maximum number of seconds to wait. Default is ${DEFAULT_WAIT_TIMEOUT}`
+        }).optional()
+      },
+      outputSchema: PortHealthOutput,
+      errorMessage: ({ sandboxId, port }) => `Failed to check port ${port} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, port, path = "/", timeout }, { client, headers, extra }) => {
+      const preview = await client.get(`/sandbox/${sandboxId}/ports/${port}/preview-url`, { headers });
+      const url = new URL(path.replace(/^\//, ""), preview.data.url.replace(/\/?$/, "/")).toString();
+      const previewHeaders: Record<string, string> = preview.data.token ? { "X-Daytona-Preview-Token": preview.data.token } : {};
+
+      const wait = await waitForUrl(url, previewHeaders, { timeout, extra, label: `Port ${port}` });
+      const summary = wait.ready
+        ? `Port ${port} answered with HTTP ${wait.status} after ${wait.elapsed}s`
+        : `Port ${port} is not answering after ${wait.elapsed}s${wait.status ? ` (last status HTTP ${wait.status})` : ""}`;
+
+      return formatStructuredResponse(`Port ${port} in Sandbox ${sandboxId}`, summary, { sandboxId, port, url, ...wait });
+    });
+
+    defineTool(server, "setSandboxPublic", {
+      description: "Make the HTTP preview of a sandbox public, or private so that it needs a preview token",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        public: z.boolean({
+          description: "Whether the sandbox http preview is publicly accessible"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to update the preview of sandbox ${sandboxId}`
+    }, async ({ sandboxId, public: isPublic }, { client, headers }) => {
+      await client.post(`/sandbox/${sandboxId}/public/${isPublic}`, {}, { headers });
+
+      const action = isPublic ? "made public" : "made private";
+      return formatStructuredResponse(`Sandbox ${sandboxId} Preview Updated`, `Sandbox preview ${action}`, { id: sandboxId, action });
+    });
+
+    defineTool(server, "archiveSandbox", {
+      description: "Archive a stopped sandbox, moving its filesystem to object storage until it is started again",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        ...waitParams(SANDBOX_TARGET_STATES)
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to archive sandbox ${sandboxId}`
+    }, async ({ sandboxId, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      await client.post(`/sandbox/${sandboxId}/archive`, {}, { headers });
+
+      if (waitUntil) {
+        const label = `Sandbox ${sandboxId}`;
+        const wait = await waitForState(
+          () => client.get(`/sandbox/${sandboxId}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          { timeout: waitTimeout, extra, label }
+        );
+
+        return formatStructuredResponse(`Sandbox ${sandboxId} Archived`, describeWait(label, waitUntil, wait), { id: sandboxId, action: "archived", wait: waitDetails(wait) });
+      }
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Archived`, "Sandbox is being archived", { id: sandboxId, action: "archived" });
+    });
+
+    defineTool(server, "setSandboxLabels", {
+      description: "Replace the labels of a sandbox, or merge new labels into the existing ones",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        labels: z.record(z.string(), {
+          description: "Labels for the sandbox"
+        }),
+        mode: z.enum(["replace", "merge"], {
+          description: "Whether the labels replace all existing labels or are merged into them. Default is replace"
+        }).optional(),
+        removeLabels: z.array(z.string(), {
+          description: "Keys of existing labels to remove when merging"
+        }).optional()
+      },
+      outputSchema: SandboxLabelsOutput,
+      errorMessage: ({ sandboxId }) => `Failed to update labels of sandbox ${sandboxId}`
+    }, async ({ sandboxId, labels, mode = "replace", removeLabels = [] }, { client, headers }) => {
+      let newLabels = labels;
+      if (mode === "merge") {
+        const sandbox = await client.get(`/sandbox/${sandboxId}`, { headers });
+        const existing: Record<string, string> = { ...sandbox.data.labels };
+        removeLabels.forEach(key => delete existing[key]);
+        newLabels = { ...existing, ...labels };
+      }
+
+      const response = await client.put(`/sandbox/${sandboxId}/labels`, { labels: newLabels }, { headers });
+      const updatedLabels = response.data?.labels ?? newLabels;
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Labels Updated`, Object.entries(updatedLabels).map(([key, value]) => `${key}=${value}`).join(", ") || "No labels", { sandboxId, labels: updatedLabels });
+    });
+
+    defineTool(server, "updateSandboxIntervals", {
+      description: "Change the auto-stop and auto-archive intervals of a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        autoStopInterval: z.number({
+          description: "Auto-stop interval in minutes (0 means disabled)"
+        }).int().min(0).optional(),
+        autoArchiveInterval: z.number({
+          description: "Auto-archive interval in minutes (0 means the maximum interval will be used)"
+        }).int().min(0).optional()
+      },
+      outputSchema: SandboxOutput,
+      errorMessage: ({ sandboxId }) => `Failed to update intervals of sandbox ${sandboxId}`
+    }, async ({ sandboxId, autoStopInterval, autoArchiveInterval }, { client, headers }) => {
+      if (autoStopInterval === undefined && autoArchiveInterval === undefined) {
+        return toolError("BAD_REQUEST", "Provide autoStopInterval, autoArchiveInterval or both", 400);
+      }
+
+      if (autoStopInterval !== undefined) {
+        await client.post(`/sandbox/${sandboxId}/autostop/${autoStopInterval}`, {}, { headers });
+      }
+      if (autoArchiveInterval !== undefined) {
+        await client.post(`/sandbox/${sandboxId}/autoarchive/${autoArchiveInterval}`, {}, { headers });
+      }
+
+      const response = await client.get(`/sandbox/${sandboxId}`, { headers });
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Intervals Updated`, `Auto-stop: ${response.data.autoStopInterval} min, auto-archive: ${response.data.autoArchiveInterval} min`, { sandbox: response.data });
+    });
+
+    defineTool(server, "resizeSandbox", {
+      description: "Change the CPU, memory or disk of a sandbox. CPU and memory can only be changed while the sandbox is stopped, and disk can only grow",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        cpu: z.number({
+          description: "CPU cores allocated to the sandbox"
+        }).int().positive().optional(),
+        memory: z.number({
+          description: "Memory allocated to the sandbox in GB"
+        }).int().positive().optional(),
+        disk: z.number({
+          description: "Disk space allocated to the sandbox in GB"
+        }).int().positive().optional()
+      },
+      outputSchema: SandboxOutput,
+      errorMessage: ({ sandboxId }) => `Failed to resize sandbox ${sandboxId}`
+    }, async ({ sandboxId, cpu, memory, disk }, { client, headers }) => {
+      if (cpu === undefined && memory === undefined && disk === undefined) {
+        return toolError("BAD_REQUEST", "Provide at least one of cpu, memory or disk", 400);
+      }
+
+      const resizeData = definedValues({
+        cpu,
+        memory,
+        disk
+      });
+
+      const response = await client.post(`/sandbox/${sandboxId}/resize`, resizeData, { headers });
+
+      return formatStructuredResponse(`Sandbox ${sandboxId} Resized`, `CPU: ${response.data.cpu}, memory: ${response.data.memory} GB, disk: ${response.data.disk} GB`, { sandbox: response.data });
+    });
+
+    // ==================== BULK SANDBOX OPERATIONS ====================
+
+    for (const [action, { toolName, verb, past }] of Object.entries(BULK_ACTIONS) as [BulkAction, typeof BULK_ACTIONS[BulkAction]][]) {
+      defineTool(server, toolName, {
+        description: `${verb} all sandboxes matching a label selector or a list of IDs, a few at a time. Use dryRun to see which sandboxes would be affected`,
+        inputSchema: {
+          sandboxIds: z.array(z.string(), {
+            description: "IDs of the sandboxes"
+          }).optional(),
+          labels: z.string({
+            description: "JSON encoded labels the sandboxes must have, e.g. {\"ci\": \"true\"}. Combined with sandboxIds, both must match"
+          }).optional(),
+          state: z.array(z.string(), {
+            description: "Only include sandboxes in one of these states"
+          }).optional(),
+          force: z.boolean({
+            description: "Force deletion of sandboxes that are not stopped. Only used when deleting"
+          }).optional(),
+          concurrency: z.number({
+            description: `Number of sandboxes handled at the same time. Default is ${DEFAULT_BULK_CONCURRENCY}`
+          }).int().min(1).max(MAX_BULK_CONCURRENCY).optional(),
+          dryRun: z.boolean({
+            description: "List the sandboxes that would be affected without changing them"
+          }).optional()
+        },
+        outputSchema: BulkActionOutput,
+        errorMessage: `Failed to ${verb.toLowerCase()} sandboxes`
+      }, async ({ sandboxIds, labels, state, force, concurrency, dryRun }, { client, headers, extra }) => {
+        let labelFilter: Record<string, string> = {};
+        try {
+          labelFilter = labels ? JSON.parse(labels) : {};
+        } catch {
+          return toolError("BAD_REQUEST", "labels must be a JSON encoded object", 400);
+        }
+        if (!sandboxIds?.length && !Object.keys(labelFilter).length) {
+          return toolError("BAD_REQUEST", "Select sandboxes with sandboxIds or a non-empty labels filter", 400);
+        }
+
+        const { sandboxes, missing } = await selectSandboxes(client, { sandboxIds, labels, state }, headers);
+        const missingResults: BulkResult[] = missing.map(sandboxId => ({
+          sandboxId,
+          status: "failed",
+          error: "Sandbox not found, or it does not match the labels and states selected"
+        }));
+
+        const results = dryRun
+          ? sandboxes.map((sandbox): BulkResult => ({
+            sandboxId: sandbox.id,
+            state: sandbox.state,
+            status: (BULK_ACTIONS[action].skipStates as readonly string[]).includes(sandbox.state) ? "skipped" : "planned"
+          }))
+          : await runBulkAction(client, action, sandboxes, {
+            concurrency: concurrency ?? DEFAULT_BULK_CONCURRENCY,
+            force,
+            headers,
+            extra
+          });
+
+        const allResults = [...results, ...missingResults];
+        const counts = countResults(allResults);
+        const lines = allResults
+          .filter(result => dryRun || result.status !== "succeeded")
+          .map(result => `- ${result.sandboxId}${result.state ? ` (${result.state})` : ""}: ${result.status}${result.error ? `, ${result.error}` : ""}`);
+        const summary = dryRun
+          ? `Would ${verb.toLowerCase()} ${counts.planned} of ${allResults.length} sandbox(es), ${counts.skipped} already ${past}`
+          : `${counts.succeeded} of ${allResults.length} sandbox(es) ${past}, ${counts.failed} failed, ${counts.skipped} skipped${counts.cancelled ? `, ${counts.cancelled} cancelled` : ""}`;
+
+        return formatStructuredResponse(`Bulk ${verb}${dryRun ? " (Dry Run)" : ""}`, lines.length ? `${summary}\n\n${lines.join("\n")}` : summary, {
+          action,
+          dryRun: Boolean(dryRun),
+          total: allResults.length,
+          succeeded: counts.succeeded,
+          failed: counts.failed,
+          skipped: counts.skipped,
+          cancelled: counts.cancelled,
+          results: allResults
+        });
+      });
+    }
+
+    // ==================== SANDBOX TEMPLATES ====================
+
+    defineTool(server, "listTemplates", {
+      description: "List the sandbox templates available to provisionFromTemplate",
+      inputSchema: {},
+      outputSchema: TemplateListOutput,
+      organizationScoped: false,
+      errorMessage: "Failed to list templates"
+    }, async () => {
+      const { templates, invalid } = await loadTemplates();
+
+      const summary = templates.map(template => `- ${template.name}${template.description ? `: ${template.description}` : ""}`).join("\n") || "No templates configured";
+      return formatStructuredResponse("Templates", invalid.length ? `${summary}\n\n${invalid.length} invalid template file(s)` : summary, { templates, invalid });
+    });
+
+    defineTool(server, "provisionFromTemplate", {
+      description: "Provision a ready to use sandbox from a template: prepare its volumes, create and start the sandbox, clone its repositories and run its setup commands, reporting progress. If a step fails, the resources created so far are deleted",
+      inputSchema: {
+        template: z.string({
+          description: "Name of a template from listTemplates"
+        }).optional(),
+        definition: z.string({
+          description: "A template definition in JSON or YAML, used instead of a named template"
+        }).optional(),
+        labels: z.record(z.string(), {
+          description: "Labels for the sandbox, added to the template's labels"
+        }).optional()
+      },
+      outputSchema: ProvisionOutput,
+      errorMessage: ({ template }) => `Failed to provision a sandbox from template ${template ?? "inline"}`
+    }, async ({ template: templateName, definition, labels }, { client, headers, extra }) => {
+      if (!templateName === !definition) {
+        return toolError("BAD_REQUEST", "Provide either template or definition", 400);
+      }
+
+      let template: Template | undefined;
+      try {
+        template = definition
+          ? parseTemplate(definition, "inline")
+          : (await loadTemplates()).templates.find(candidate => candidate.name === templateName);
+      } catch (error) {
+        return toolError("BAD_REQUEST", `Invalid template definition: ${error instanceof Error ? error.message : String(error)}`, 400);
+      }
+      if (!template) {
+        return toolError("NOT_FOUND", `Template ${templateName} not found`, 404);
+      }
+
+      const violations = templateViolations(template);
+      if (violations.length) {
+        return toolError("COMMAND_DENIED", `Template ${template.name} has setup commands the policy rejects:\n\n${violations.join("\n")}`, 403, { violations });
+      }
+
+      try {
+        const result = await provisionTemplate(client, template, headers, extra, labels);
+
+        return formatStructuredResponse(`Sandbox Provisioned from ${template.name}`, `Sandbox ${result.sandbox.id} is ready after ${result.steps.length} step(s)`, { template: template.name, ...result });
+      } catch (error) {
+        if (!(error instanceof ProvisioningError)) {
+          throw error;
+        }
+        const rollback = error.rolledBack.length ? `Deleted ${error.rolledBack.join(", ")}` : "Nothing had to be deleted";
+        const rollbackFailures = error.rollbackErrors.length ? `\n\nCould not delete ${error.rollbackErrors.join("; ")}` : "";
+        return toolError("PROVISIONING_FAILED", `${error.message}\n\n${rollback}${rollbackFailures}`, error.status, {
+          step: error.step,
+          rolledBack: error.rolledBack,
+          rollbackErrors: error.rollbackErrors
+        });
+      }
+    });
+
+    // ==================== SESSION RESOURCES ====================
+
+    defineTool(server, "listMyResources", {
+      description: "List the sandboxes, volumes, sessions and long-running commands created in this MCP session, or by this caller of the stateless endpoint, and not deleted yet. Depending on the server's settings they are stopped, archived or deleted once the session is closed or idle",
+      inputSchema: {},
+      outputSchema: SessionResourcesOutput,
+      organizationScoped: false,
+      errorMessage: "Failed to list the resources of this session"
+    }, async (_args, { extra }) => {
+      const sessionId = trackingKey(extra);
+      const resources = await sessionResources(sessionId);
+      const action = reaperAction(sessionId);
+
+      const summary = resources.map(resource => `- ${resource.kind} ${resource.sandboxId ? `${resource.sandboxId}/` : ""}${resource.id} (created by ${resource.createdBy} at ${resource.createdAt})`).join("\n") || "No resources created in this session";
+      const reaper = action === "none"
+        ? "They are not cleaned up automatically"
+        : `Sandboxes are ${BULK_ACTIONS[action].past} when the session is closed or after ${REAPER_IDLE_MINUTES} idle minutes`;
+      return formatStructuredResponse(`Resources of Session ${sessionId}`, `${summary}\n\n${reaper}`, {
+        sessionId,
+        resources,
+        reaper: { action, idleMinutes: REAPER_IDLE_MINUTES }
+      });
+    });
+  }
+};
@@ -0,0 +1,241 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { sleep } from "@/lib/progress";
+import { commandTimeout } from "@/lib/resilience";
+import { formatStructuredResponse } from "@/lib/responses";
+import {
+  ActionResultOutput,
+  SessionCommandLogsOutput,
+  SessionCommandOutput,
+  SessionExecuteOutput,
+  SessionListOutput,
+  SessionOutput,
+  SessionStreamOutput
+} from "@/lib/schemas";
+import { followCommandLogs } from "@/lib/streaming";
+import { definedValues, defineTool, ToolModule } from "@/lib/tools/define";
+
+export const sessionTools: ToolModule = {
+  group: "sessions",
+  register: server => {
+    // ==================== SANDBOX SESSION MANAGEMENT ====================
+
+    defineTool(server, "listSessions", {
+      description: "List all active sessions in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        })
+      },
+      outputSchema: SessionListOutput,
+      errorMessage: ({ sandboxId }) => `Failed to list sessions for sandbox ${sandboxId}`
+    }, async ({ sandboxId }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/process/session`, { headers });
+
+      return formatStructuredResponse(`Sessions in Sandbox ${sandboxId}`, `${response.data.length} session(s)`, { sessions: response.data });
+    });
+
+    defineTool(server, "createSession", {
+      description: "Create a new session in a sandbox",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId }) => `Failed to create session in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId }, { client, headers }) => {
+      await client.post(`/toolbox/${sandboxId}/toolbox/process/session`, {
+        sessionId
+      }, { headers });
+
+      return formatStructuredResponse(`Session Created in Sandbox ${sandboxId}`, `Session ${sessionId} created successfully`, { id: sessionId, action: "created" });
+    });
+
+    defineTool(server, "getSession", {
+      description: "Get details about a specific session",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session"
+        })
+      },
+      outputSchema: SessionOutput,
+      errorMessage: ({ sandboxId, sessionId }) => `Failed to get session ${sessionId} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/process/session/${sessionId}`, { headers });
+
+      return formatStructuredResponse(`Session ${sessionId} in Sandbox ${sandboxId}`, `${(response.data.commands || []).length} command(s) run in this session`, { session: response.data });
+    });
+
+    defineTool(server, "deleteSession", {
+      description: "Delete a specific session",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId, sessionId }) => `Failed to delete session ${sessionId} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId }, { client, headers }) => {
+      await client.delete(`/toolbox/${sandboxId}/toolbox/process/session/${sessionId}`, { headers });
+
+      return formatStructuredResponse(`Session ${sessionId} Deleted from Sandbox ${sandboxId}`, "Session deleted successfully", { id: sessionId, action: "deleted" });
+    });
+
+    defineTool(server, "executeSessionCommand", {
+      description: "Execute a command in a specific session",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session"
+        }),
+        command: z.string({
+          description: "The command to execute"
+        }),
+        runAsync: z.boolean({
+          description: "Whether to execute the command asynchronously"
+        }).optional()
+      },
+      outputSchema: SessionExecuteOutput,
+      errorMessage: ({ sandboxId, sessionId }) => `Failed to execute command in session ${sessionId} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId, command, runAsync }, { client, headers }) => {
+      const requestData = definedValues({
+        command,
+        runAsync
+      });
+
+      const response = await client.post(`/toolbox/${sandboxId}/toolbox/process/session/${sessionId}/exec`, requestData, {
+        headers,
+        timeout: runAsync ? undefined : commandTimeout()
+      });
+
+      return formatStructuredResponse(`Command Executed in Session ${sessionId}`, runAsync ? `Command ${response.data.cmdId} started` : `Exit code ${response.data.exitCode}\n\n${response.data.output ?? ""}`, {
+        cmdId: response.data.cmdId,
+        output: response.data.output,
+        exitCode: response.data.exitCode
+      });
+    });
+
+    defineTool(server, "getSessionCommand", {
+      description: "Get details about a specific command",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session"
+        }),
+        commandId: z.string({
+          description: "The ID of the command"
+        })
+      },
+      outputSchema: SessionCommandOutput,
+      errorMessage: ({ sandboxId, sessionId, commandId }) => `Failed to get command ${commandId} in session ${sessionId} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId, commandId }, { client, headers }) => {
+      const response = await client.get(`/toolbox/${sandboxId}/toolbox/process/session/${sessionId}/command/${commandId}`, { headers });
+
+      return formatStructuredResponse(`Command ${commandId} in Session ${sessionId}`, response.data.exitCode === null || response.data.exitCode === undefined ? "Still running" : `Exit code ${response.data.exitCode}`, { command: response.data });
+    });
+
+    defineTool(server, "getSessionCommandLogs", {
+      description: "Get logs for a specific command in a session",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session"
+        }),
+        commandId: z.string({
+          description: "The ID of the command"
+        }),
+        follow: z.boolean({
+          description: "Whether to follow the logs stream"
+        }).optional()
+      },
+      outputSchema: SessionCommandLogsOutput,
+      errorMessage: ({ sandboxId, sessionId, commandId }) => `Failed to get logs for command ${commandId} in session ${sessionId} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId, commandId, follow }, { client, headers, extra }) => {
+      const logsUrl = `/toolbox/${sandboxId}/toolbox/process/session/${sessionId}/command/${commandId}/logs`;
+
+      // Followed logs are relayed as notifications while the command runs
+      if (follow) {
+        const output = await followCommandLogs(client, logsUrl, headers, extra, `${sessionId}/${commandId}`);
+        const logs = output.stdout + output.stderr;
+
+        return formatStructuredResponse(`Logs for Command ${commandId} in Session ${sessionId}`, logs, { logs });
+      }
+
+      const response = await client.get(logsUrl, { headers });
+
+      const logs = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+
+      return formatStructuredResponse(`Logs for Command ${commandId} in Session ${sessionId}`, logs, { logs });
+    });
+
+    defineTool(server, "streamSessionCommand", {
+      description: "Run a command in a session and stream its stdout and stderr until it exits. Output is sent as progress notifications, or as logging notifications when the request has no progress token. Without a sessionId the command runs in a temporary session. Cancelling the call deletes the session, which stops the command",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        sessionId: z.string({
+          description: "The ID of the session (optional, a temporary session is used if not provided)"
+        }).optional(),
+        command: z.string({
+          description: "The command to execute"
+        })
+      },
+      outputSchema: SessionStreamOutput,
+      errorMessage: ({ sandboxId, sessionId }) => `Failed to stream command in ${sessionId ? `session ${sessionId}` : "a temporary session"} in sandbox ${sandboxId}`
+    }, async ({ sandboxId, sessionId, command }, { client, headers, extra }) => {
+      const session = sessionId ?? `mcp-stream-${randomUUID()}`;
+      const sessionUrl = `/toolbox/${sandboxId}/toolbox/process/session/${session}`;
+
+      try {
+        if (!sessionId) {
+          await client.post(`/toolbox/${sandboxId}/toolbox/process/session`, { sessionId: session }, { headers });
+        }
+
+        const execResponse = await client.post(`${sessionUrl}/exec`, { command, runAsync: true }, { headers });
+        const cmdId: string = execResponse.data.cmdId;
+
+        const output = await followCommandLogs(client, `${sessionUrl}/command/${cmdId}/logs`, headers, extra, `${session}/${cmdId}`);
+
+        // The log stream can close just before the exit code is recorded
+        let exitCode: number | null | undefined;
+        for (let attempt = 0; attempt < 10; attempt++) {
+          const commandResponse = await client.get(`${sessionUrl}/command/${cmdId}`, { headers });
+          exitCode = commandResponse.data.exitCode;
+          if (exitCode !== null && exitCode !== undefined) break;
+          await sleep(500, extra.signal);
+        }
+
+        const summary = exitCode === null || exitCode === undefined ? "The log stream ended before the command exited" : `Exit code ${exitCode}`;
+        return formatStructuredResponse(`Command ${cmdId} in Session ${session}`, `${summary}\n\n${output.stdout}${output.stderr}`, {
+          sessionId: session,
+          cmdId,
+          exitCode,
+          stdout: output.stdout,
+          stderr: output.stderr
+        });
+      } finally {
+        // Deleting the session kills the command if it is still running
+        if (!sessionId || extra.signal.aborted) {
+          await client.delete(sessionUrl, { headers }).catch(() => undefined);
+        }
+      }
+    });
+  }
+};
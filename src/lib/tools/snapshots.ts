@@ -0,0 +1,274 @@
+import { z } from "zod";
+import { BuildSpecSchema, dockerfileFromSpec, uploadBuildContext } from "@/lib/images";
+import {
+  createdBetween,
+  createdParams,
+  describePage,
+  fetchAllPages,
+  listParams,
+  paginate,
+  SNAPSHOT_COMPACT_FIELDS,
+  SNAPSHOT_SORT_FIELDS
+} from "@/lib/listing";
+import { withoutProgress } from "@/lib/progress";
+import { formatStructuredResponse, toolError } from "@/lib/responses";
+import { ActionResultOutput, SnapshotBuildLogsOutput, SnapshotListOutput, SnapshotOutput } from "@/lib/schemas";
+import { followBuildLogs } from "@/lib/streaming";
+import { definedValues, defineTool, ToolModule } from "@/lib/tools/define";
+import { DEFAULT_WAIT_TIMEOUT, describeWait, SNAPSHOT_TARGET_STATES, waitDetails, waitForState, waitParams } from "@/lib/waiting";
+
+export const snapshotTools: ToolModule = {
+  group: "snapshots",
+  register: server => {
+    // ==================== SNAPSHOTS MANAGEMENT ====================
+
+    defineTool(server, "listSnapshots", {
+      description: "List snapshots, filtered, sorted and paginated. Use fields or the table format to keep large lists short",
+      inputSchema: {
+        state: z.array(z.string(), {
+          description: "Only include snapshots in one of these states, e.g. active or error"
+        }).optional(),
+        name: z.string({
+          description: "Only include snapshots whose name contains this text"
+        }).optional(),
+        general: z.boolean({
+          description: "Only include general or only organization snapshots"
+        }).optional(),
+        ...createdParams,
+        ...listParams(SNAPSHOT_SORT_FIELDS, SNAPSHOT_COMPACT_FIELDS)
+      },
+      outputSchema: SnapshotListOutput,
+      errorMessage: "Failed to list snapshots"
+    }, async ({ state, name, general, createdAfter, createdBefore, ...options }, { client, headers }) => {
+      const allSnapshots = await fetchAllPages(async (page, limit) => {
+        const response = await client.get('/snapshots', {
+          params: { page, limit },
+          headers
+        });
+        return response.data;
+      });
+
+      const snapshots = (allSnapshots as any[]).filter(snapshot =>
+        (!state?.length || state.includes(snapshot.state)) &&
+        (!name || snapshot.name?.toLowerCase().includes(name.toLowerCase())) &&
+        (general === undefined || Boolean(snapshot.general) === general) &&
+        createdBetween(snapshot, createdAfter, createdBefore)
+      );
+      const result = paginate(snapshots, options, SNAPSHOT_COMPACT_FIELDS);
+      const { items, fields, remaining, ...page } = result;
+
+      return formatStructuredResponse("Snapshots", describePage("snapshot(s)", result, options.format), { snapshots: items, ...page }, {
+        json: options.format !== "table"
+      });
+    });
+
+    defineTool(server, "getSnapshot", {
+      description: "Get detailed information about a specific snapshot",
+      inputSchema: {
+        id: z.string({
+          description: "ID or name of the snapshot"
+        })
+      },
+      outputSchema: SnapshotOutput,
+      errorMessage: ({ id }) => `Failed to get snapshot ${id}`
+    }, async ({ id }, { client, headers }) => {
+      const response = await client.get(`/snapshots/${id}`, { headers });
+
+      return formatStructuredResponse(`Snapshot: ${id}`, `State: ${response.data.state}`, { snapshot: response.data });
+    });
+
+    defineTool(server, "createSnapshot", {
+      description: "Create a new snapshot from an image, or build its image from a Dockerfile or a build spec",
+      inputSchema: {
+        name: z.string({
+          description: "The name of the snapshot"
+        }),
+        imageName: z.string({
+          description: "The image name of the snapshot"
+        }).optional(),
+        dockerfile: z.string({
+          description: "Content of a Dockerfile to build the image from, instead of imageName"
+        }).optional(),
+        contextArchive: z.string({
+          description: "Base64 encoded tar archive of the files the Dockerfile copies, with paths relative to the build context"
+        }).optional(),
+        buildSpec: BuildSpecSchema.describe("Packages, environment and commands to build the image from, instead of imageName or a Dockerfile").optional(),
+        followLogs: z.boolean({
+          description: "Whether to follow the build logs, relaying them as notifications until the build finishes"
+        }).optional(),
+        entrypoint: z.array(z.string(), {
+          description: "The entrypoint command for the snapshot"
+        }).optional(),
+        general: z.boolean({
+          description: "Whether the snapshot is general"
+        }).optional(),
+        cpu: z.number({
+          description: "CPU cores allocated to the resulting sandbox"
+        }).optional(),
+        gpu: z.number({
+          description: "GPU units allocated to the resulting sandbox"
+        }).optional(),
+        memory: z.number({
+          description: "Memory allocated to the resulting sandbox in GB"
+        }).optional(),
+        disk: z.number({
+          description: "Disk space allocated to the sandbox in GB"
+        }).optional(),
+        ...waitParams(SNAPSHOT_TARGET_STATES)
+      },
+      outputSchema: SnapshotOutput,
+      errorMessage: "Failed to create snapshot"
+    }, async ({ name, imageName, dockerfile, contextArchive, buildSpec, followLogs, entrypoint, general, cpu, gpu, memory, disk, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      if ([imageName, dockerfile, buildSpec].filter(source => source !== undefined).length > 1) {
+        return toolError("BAD_REQUEST", "Provide only one of imageName, dockerfile and buildSpec", 400);
+      }
+      if (contextArchive && !dockerfile) {
+        return toolError("BAD_REQUEST", "contextArchive can only be used with a dockerfile", 400);
+      }
+
+      const dockerfileContent = buildSpec ? dockerfileFromSpec(buildSpec) : dockerfile;
+      const buildInfo = dockerfileContent === undefined ? undefined : {
+        dockerfileContent,
+        contextHashes: contextArchive ? [await uploadBuildContext(client, Buffer.from(contextArchive, "base64"), headers)] : []
+      };
+
+      const snapshotData = definedValues({
+        name,
+        imageName,
+        buildInfo,
+        entrypoint,
+        general,
+        cpu,
+        gpu,
+        memory,
+        disk
+      });
+
+      const response = await client.post('/snapshots', snapshotData, { headers });
+      const build = buildInfo ? { dockerfile: buildInfo.dockerfileContent } : {};
+
+      // The logs stream ends with the build, so the state is final afterwards
+      if (buildInfo && followLogs) {
+        const buildLogs = await followBuildLogs(client, response.data.id, headers, extra);
+        Object.assign(build, { buildLogs });
+        if (!waitUntil) {
+          const snapshot = (await client.get(`/snapshots/${response.data.id}`, { headers })).data;
+          const reason = snapshot.errorReason ? `: ${snapshot.errorReason}` : "";
+          return formatStructuredResponse("Snapshot Built", `Build of snapshot ${snapshot.name} finished (state: ${snapshot.state})${reason}`, { snapshot, ...build });
+        }
+      }
+
+      if (waitUntil) {
+        const label = `Snapshot ${response.data.name}`;
+        const wait = await waitForState(
+          () => client.get(`/snapshots/${response.data.id}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          // Progress went up with the followed logs, and the wait would start it over
+          { timeout: waitTimeout, extra: buildInfo && followLogs ? withoutProgress(extra) : extra, label }
+        );
+
+        return formatStructuredResponse("Snapshot Created", describeWait(label, waitUntil, wait), { snapshot: wait.resource, wait: waitDetails(wait), ...build });
+      }
+
+      return formatStructuredResponse("Snapshot Created", `Snapshot ${response.data.name} created (state: ${response.data.state})`, { snapshot: response.data, ...build });
+    });
+
+    defineTool(server, "getSnapshotBuildLogs", {
+      description: "Get the build logs of a snapshot built from a Dockerfile or a build spec, to diagnose failed builds",
+      inputSchema: {
+        id: z.string({
+          description: "ID of the snapshot"
+        }),
+        follow: z.boolean({
+          description: "Whether to follow the logs until the build finishes, relaying them as notifications"
+        }).optional()
+      },
+      outputSchema: SnapshotBuildLogsOutput,
+      errorMessage: ({ id }) => `Failed to get build logs for snapshot ${id}`
+    }, async ({ id, follow }, { client, headers, extra }) => {
+      if (follow) {
+        const logs = await followBuildLogs(client, id, headers, extra);
+
+        return formatStructuredResponse(`Build Logs for Snapshot ${id}`, logs, { logs });
+      }
+
+      const response = await client.get(`/snapshots/${id}/build-logs`, { headers });
+
+      const logs = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+
+      return formatStructuredResponse(`Build Logs for Snapshot ${id}`, logs, { logs });
+    });
+
+    defineTool(server, "createSnapshotFromSandbox", {
+      description: "Create a snapshot from the current filesystem of a sandbox, to start new sandboxes from",
+      inputSchema: {
+        sandboxId: z.string({
+          description: "ID of the sandbox"
+        }),
+        name: z.string({
+          description: "The name of the snapshot"
+        }),
+        ...waitParams(SNAPSHOT_TARGET_STATES)
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ sandboxId, name }) => `Failed to create snapshot ${name} from sandbox ${sandboxId}`
+    }, async ({ sandboxId, name, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      await client.post(`/sandbox/${sandboxId}/snapshot`, { name }, { headers });
+
+      if (waitUntil) {
+        const label = `Snapshot ${name}`;
+        const wait = await waitForState(
+          () => client.get(`/snapshots/${name}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          { timeout: waitTimeout, extra, label }
+        );
+
+        return formatStructuredResponse("Snapshot Created", describeWait(label, waitUntil, wait), { id: name, action: "created", wait: waitDetails(wait) });
+      }
+
+      return formatStructuredResponse("Snapshot Created", `Snapshot ${name} is being created from sandbox ${sandboxId}`, { id: name, action: "created" });
+    });
+
+    defineTool(server, "waitForSnapshotState", {
+      description: "Wait until a snapshot reaches a state, polling with backoff and reporting progress. Returns early if the snapshot fails",
+      inputSchema: {
+        id: z.string({
+          description: "ID or name of the snapshot"
+        }),
+        state: z.enum(SNAPSHOT_TARGET_STATES, {
+          description: "The state to wait for"
+        }),
+        timeout: z.number({
+          description: `Maximum number of seconds to wait. Default is ${DEFAULT_WAIT_TIMEOUT}`
+        }).optional()
+      },
+      outputSchema: SnapshotOutput,
+      errorMessage: ({ id, state }) => `Failed to wait for snapshot ${id} to be ${state}`
+    }, async ({ id, state, timeout }, { client, headers, extra }) => {
+      const label = `Snapshot ${id}`;
+
+      const wait = await waitForState(
+        () => client.get(`/snapshots/${id}`, { headers, signal: extra.signal }).then(res => res.data),
+        state,
+        { timeout, extra, label }
+      );
+
+      return formatStructuredResponse(`Snapshot: ${id}`, describeWait(label, state, wait), { snapshot: wait.resource, wait: waitDetails(wait) });
+    });
+
+    defineTool(server, "deleteSnapshot", {
+      description: "Delete a snapshot",
+      inputSchema: {
+        id: z.string({
+          description: "ID of the snapshot"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ id }) => `Failed to delete snapshot ${id}`
+    }, async ({ id }, { client, headers }) => {
+      await client.delete(`/snapshots/${id}`, { headers });
+
+      return formatStructuredResponse(`Snapshot ${id} Deleted`, "Snapshot has been deleted", { id, action: "deleted" });
+    });
+  }
+};
@@ -0,0 +1,154 @@
+import type { AxiosInstance } from "axios";
+import { z } from "zod";
+import { formatStructuredResponse, toolError } from "@/lib/responses";
+import { ActionResultOutput, VolumeListOutput, VolumeOutput } from "@/lib/schemas";
+import { defineTool, ToolModule } from "@/lib/tools/define";
+import { DEFAULT_WAIT_TIMEOUT, describeWait, VOLUME_TARGET_STATES, waitDetails, waitForState, waitParams } from "@/lib/waiting";
+
+// Volume IDs are UUIDs, anything else is looked up as a volume name
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const resolveVolumeId = async (client: AxiosInstance, volume: string, headers: Record<string, string>) => {
+  if (UUID_PATTERN.test(volume)) {
+    return volume;
+  }
+  const response = await client.get(`/volumes/by-name/${encodeURIComponent(volume)}`, { headers });
+  return response.data.id as string;
+};
+
+export const volumeTools: ToolModule = {
+  group: "volumes",
+  register: server => {
+    // ==================== VOLUMES MANAGEMENT ====================
+
+    defineTool(server, "listVolumes", {
+      description: "List all volumes",
+      inputSchema: {
+        includeDeleted: z.boolean({
+          description: "Include deleted volumes in the response"
+        }).optional()
+      },
+      outputSchema: VolumeListOutput,
+      errorMessage: "Failed to list volumes"
+    }, async ({ includeDeleted }, { client, headers }) => {
+      const params: Record<string, any> = {};
+      if (includeDeleted !== undefined) params.includeDeleted = includeDeleted;
+
+      const response = await client.get('/volumes', {
+        params,
+        headers
+      });
+
+      return formatStructuredResponse("Volumes", `${response.data.length} volume(s)`, { volumes: response.data });
+    });
+
+    defineTool(server, "getVolume", {
+      description: "Get detailed information about a specific volume",
+      inputSchema: {
+        volumeId: z.string({
+          description: "ID of the volume"
+        })
+      },
+      outputSchema: VolumeOutput,
+      errorMessage: ({ volumeId }) => `Failed to get volume ${volumeId}`
+    }, async ({ volumeId }, { client, headers }) => {
+      const response = await client.get(`/volumes/${volumeId}`, { headers });
+
+      return formatStructuredResponse(`Volume: ${volumeId}`, `State: ${response.data.state}`, { volume: response.data });
+    });
+
+    defineTool(server, "getVolumeByName", {
+      description: "Get detailed information about a specific volume by name",
+      inputSchema: {
+        name: z.string({
+          description: "Name of the volume"
+        })
+      },
+      outputSchema: VolumeOutput,
+      errorMessage: ({ name }) => `Failed to get volume ${name}`
+    }, async ({ name }, { client, headers }) => {
+      const response = await client.get(`/volumes/by-name/${name}`, { headers });
+
+      return formatStructuredResponse(`Volume: ${name}`, `Volume ${response.data.id} (state: ${response.data.state})`, { volume: response.data });
+    });
+
+    defineTool(server, "createVolume", {
+      description: "Create a new volume",
+      inputSchema: {
+        name: z.string({
+          description: "The name of the volume"
+        }),
+        ...waitParams(VOLUME_TARGET_STATES)
+      },
+      outputSchema: VolumeOutput,
+      errorMessage: "Failed to create volume"
+    }, async ({ name, waitUntil, waitTimeout }, { client, headers, extra }) => {
+      const response = await client.post('/volumes', { name }, { headers });
+
+      if (waitUntil) {
+        const label = `Volume ${response.data.name}`;
+        const wait = await waitForState(
+          () => client.get(`/volumes/${response.data.id}`, { headers, signal: extra.signal }).then(res => res.data),
+          waitUntil,
+          { timeout: waitTimeout, extra, label }
+        );
+
+        return formatStructuredResponse("Volume Created", describeWait(label, waitUntil, wait), { volume: wait.resource, wait: waitDetails(wait) });
+      }
+
+      return formatStructuredResponse("Volume Created", `Volume ${response.data.name} created with ID ${response.data.id}`, { volume: response.data });
+    });
+
+    defineTool(server, "deleteVolume", {
+      description: "Delete a volume",
+      inputSchema: {
+        volumeId: z.string({
+          description: "ID of the volume"
+        })
+      },
+      outputSchema: ActionResultOutput,
+      errorMessage: ({ volumeId }) => `Failed to delete volume ${volumeId}`
+    }, async ({ volumeId }, { client, headers }) => {
+      // A volume still mounted by a sandbox would break that sandbox, so refuse to delete it
+      const sandboxes = await client.get('/sandbox', { headers });
+      const mountedBy: string[] = sandboxes.data
+        .filter((sandbox: any) => sandbox.state !== "destroyed" && sandbox.volumes?.some((mount: any) => mount.volumeId === volumeId))
+        .map((sandbox: any) => sandbox.id);
+      if (mountedBy.length) {
+        return toolError("CONFLICT", `Volume ${volumeId} is still mounted by sandbox(es) ${mountedBy.join(", ")}. Delete them before the volume`, 409, { sandboxIds: mountedBy });
+      }
+
+      await client.delete(`/volumes/${volumeId}`, { headers });
+
+      return formatStructuredResponse(`Volume ${volumeId} Deleted`, "Volume has been marked for deletion", { id: volumeId, action: "deleted" });
+    });
+
+    defineTool(server, "waitForVolumeState", {
+      description: "Wait until a volume reaches a state, by default ready, polling with backoff and reporting progress. Returns early if the volume fails",
+      inputSchema: {
+        volume: z.string({
+          description: "ID or name of the volume"
+        }),
+        state: z.enum(VOLUME_TARGET_STATES, {
+          description: "The state to wait for. Default is ready"
+        }).optional(),
+        timeout: z.number({
+          description: `Maximum number of seconds to wait. Default is ${DEFAULT_WAIT_TIMEOUT}`
+        }).optional()
+      },
+      outputSchema: VolumeOutput,
+      errorMessage: ({ volume, state = "ready" }) => `Failed to wait for volume ${volume} to be ${state}`
+    }, async ({ volume, state = "ready", timeout }, { client, headers, extra }) => {
+      const volumeId = await resolveVolumeId(client, volume, headers);
+      const label = `Volume ${volume}`;
+
+      const wait = await waitForState(
+        () => client.get(`/volumes/${volumeId}`, { headers, signal: extra.signal }).then(res => res.data),
+        state,
+        { timeout, extra, label }
+      );
+
+      return formatStructuredResponse(`Volume: ${volume}`, describeWait(label, state, wait), { volume: wait.resource, wait: waitDetails(wait) });
+    });
+  }
+};
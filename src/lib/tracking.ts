@@ -0,0 +1,418 @@
+import { AxiosInstance } from "axios";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { BULK_ACTIONS } from "@/lib/bulk";
+import { daytonaApiKey, daytonaClient } from "@/lib/daytona";
+import { interceptTools, McpServer } from "@/lib/interceptors";
+import { redisUrl, stateStore } from "@/lib/state";
+import { organizationHeaders } from "@/lib/tools/define";
+
+// ==================== SETTINGS ====================
+
+// Label carrying the MCP session that created a sandbox
+export const OWNER_LABEL = "mcp-session";
+
+export const REAPER_ACTIONS = ["none", "stop", "archive", "delete"] as const;
+export type ReaperAction = typeof REAPER_ACTIONS[number];
+
+const numberSetting = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// DAYTONA_REAPER_ACTION, undefined if it is not set
+const configuredReaperAction = (): ReaperAction | undefined => {
+  const action = process.env.DAYTONA_REAPER_ACTION;
+  if (!action || REAPER_ACTIONS.includes(action as ReaperAction)) {
+    return action as ReaperAction | undefined;
+  }
+  console.warn(`DAYTONA_REAPER_ACTION must be one of ${REAPER_ACTIONS.join(", ")}, not ${action}. Resources are not reaped`);
+  return "none";
+};
+
+const REAPER_SETTING = configuredReaperAction();
+// Minutes without a tool call after which a session counts as idle
+export const REAPER_IDLE_MINUTES = numberSetting("DAYTONA_REAPER_IDLE", 30);
+// Minutes a closed session's resources are kept, e.g. for a client that reconnects
+const REAPER_GRACE_MINUTES = numberSetting("DAYTONA_REAPER_GRACE", 5);
+
+const REAP_INTERVAL_MS = 60000;
+// Sessions and resources that could not be reaped are forgotten after a week
+const STATE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Encrypts the Daytona API keys kept to reap with. Without DAYTONA_STATE_SECRET
+// only the instance that stored a key can read it.
+const stateSecret = createHash("sha256").update(process.env.DAYTONA_STATE_SECRET || randomBytes(32).toString("hex")).digest();
+
+// Instances sharing their state through Redis need the same secret to reap
+// each other's sessions, so without one nothing is reaped
+const REAPER_DISABLED = Boolean(redisUrl) && !process.env.DAYTONA_STATE_SECRET;
+if (REAPER_DISABLED && REAPER_SETTING !== "none") {
+  console.warn("DAYTONA_STATE_SECRET is not set, so resources are not reaped. Set the same secret on all instances sharing REDIS_URL");
+}
+
+// ==================== TRACKED RESOURCES ====================
+
+export const RESOURCE_KINDS = ["sandbox", "volume", "session", "command"] as const;
+export type ResourceKind = typeof RESOURCE_KINDS[number];
+
+export interface TrackedResource {
+  kind: ResourceKind;
+  id: string;
+  // Sandbox of a session or command
+  sandboxId?: string;
+  // Session of a command
+  sessionId?: string;
+  organizationId?: string;
+  // Tool that created the resource
+  createdBy: string;
+  createdAt: string;
+}
+
+interface SessionRecord {
+  // Daytona API key the session's resources are reaped with, encrypted. None
+  // for sessions that used the server's DAYTONA_API_KEY
+  apiKey?: string;
+  lastSeen: number;
+  closedAt?: number;
+}
+
+// AES-256-GCM, as `<iv>.<tag>.<ciphertext>` in base64url
+const seal = (text: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", stateSecret, iv);
+  const data = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map(part => part.toString("base64url")).join(".");
+};
+
+// The sealed text, or undefined if it was sealed with another secret
+const unseal = (sealed: string) => {
+  try {
+    const [iv, tag, data] = sealed.split(".").map(part => Buffer.from(part, "base64url"));
+    const decipher = createDecipheriv("aes-256-gcm", stateSecret, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+  } catch {
+    return undefined;
+  }
+};
+
+const SESSIONS_KEY = "sessions";
+const resourcesKey = (sessionKey: string) => `session:${sessionKey}:resources`;
+const resourceField = ({ kind, id, sandboxId }: Pick<TrackedResource, "kind" | "id" | "sandboxId">) =>
+  sandboxId ? `${kind}:${sandboxId}/${id}` : `${kind}:${id}`;
+
+const CALLER_PREFIX = "caller-";
+
+// MCP sessions are identified by the transport's session ID. The streamable
+// HTTP endpoint is stateless and has none, so its calls are grouped by the
+// caller instead: the subject of an OAuth access token, the bearer token, or
+// the server's DAYTONA_API_KEY for calls without one.
+export const trackingKey = (extra: { sessionId?: string; authInfo?: AuthInfo }) => {
+  if (extra.sessionId) {
+    return extra.sessionId;
+  }
+  if (!extra.authInfo?.token) {
+    return `${CALLER_PREFIX}server`;
+  }
+  const subject = extra.authInfo.extra?.subject;
+  const caller = typeof subject === "string" && subject ? `subject:${subject}` : `token:${extra.authInfo.token}`;
+  return `${CALLER_PREFIX}${createHash("sha256").update(caller).digest("hex").slice(0, 16)}`;
+};
+
+// What happens to the sandboxes of a session once it ended or went idle. All
+// clients of a caller share its resources, and some may still be active when
+// the caller goes idle, so callers are only reaped if DAYTONA_REAPER_ACTION says so.
+export const reaperAction = (sessionKey: string): ReaperAction =>
+  REAPER_DISABLED ? "none" : REAPER_SETTING ?? (sessionKey.startsWith(CALLER_PREFIX) ? "none" : "stop");
+
+// Resources the MCP session created that are not deleted yet, oldest first
+export const sessionResources = async (sessionKey: string) => {
+  const resources = Object.values(await stateStore().entries<TrackedResource>(resourcesKey(sessionKey)));
+  return resources.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Resources created by a successful tool call, taken from its structured content
+const createdResources = (toolName: string, args: Record<string, any>, data: Record<string, any>) => {
+  const resources: Pick<TrackedResource, "kind" | "id" | "sandboxId" | "sessionId">[] = [];
+  switch (toolName) {
+    case "createSandbox":
+      if (data.sandbox?.id) resources.push({ kind: "sandbox", id: data.sandbox.id });
+      break;
+    case "provisionFromTemplate":
+      if (data.sandbox?.id) resources.push({ kind: "sandbox", id: data.sandbox.id });
+      for (const volume of data.createdVolumes ?? []) resources.push({ kind: "volume", id: volume.id });
+      break;
+    case "createVolume":
+      if (data.volume?.id) resources.push({ kind: "volume", id: data.volume.id });
+      break;
+    case "createSession":
+      resources.push({ kind: "session", id: args.sessionId, sandboxId: args.sandboxId });
+      break;
+    case "executeSessionCommand":
+      if (args.runAsync && data.cmdId) {
+        resources.push({ kind: "command", id: data.cmdId, sandboxId: args.sandboxId, sessionId: args.sessionId });
+      }
+      break;
+  }
+  return resources;
+};
+
+// Whether a tracked resource is gone after a successful tool call. Sessions and
+// commands go with their sandbox, and commands with their session.
+const deletedBy = (toolName: string, args: Record<string, any>, data: Record<string, any>) => {
+  switch (toolName) {
+    case "deleteSandbox":
+      return (resource: TrackedResource) => resource.id === args.sandboxId || resource.sandboxId === args.sandboxId;
+    case "bulkDeleteSandboxes": {
+      const deleted = data.dryRun ? [] : (data.results ?? [])
+        .filter((result: any) => result.status === "succeeded")
+        .map((result: any) => result.sandboxId);
+      return deleted.length
+        ? (resource: TrackedResource) => deleted.includes(resource.sandboxId ?? resource.id)
+        : undefined;
+    }
+    case "deleteVolume":
+      return (resource: TrackedResource) => resource.kind === "volume" && resource.id === args.volumeId;
+    case "deleteSession":
+      return (resource: TrackedResource) => resource.sandboxId === args.sandboxId &&
+        (resource.kind === "session" ? resource.id : resource.sessionId) === args.sessionId;
+  }
+  return undefined;
+};
+
+const recordCall = async (sessionKey: string, toolName: string, args: Record<string, any>, result: any, authInfo?: AuthInfo) => {
+  const store = stateStore();
+  const apiKey = daytonaApiKey(authInfo);
+  await store.put<SessionRecord>(SESSIONS_KEY, sessionKey, { apiKey: apiKey ? seal(apiKey) : undefined, lastSeen: Date.now() });
+  if (result?.isError || !result?.structuredContent) {
+    return;
+  }
+
+  const data = result.structuredContent;
+  const createdAt = new Date().toISOString();
+  for (const resource of createdResources(toolName, args, data)) {
+    await store.put<TrackedResource>(resourcesKey(sessionKey), resourceField(resource), {
+      ...resource,
+      organizationId: args.organizationId,
+      createdBy: toolName,
+      createdAt
+    }, STATE_TTL_SECONDS);
+  }
+
+  const isDeleted = deletedBy(toolName, args, data);
+  if (isDeleted) {
+    for (const resource of await sessionResources(sessionKey)) {
+      if (isDeleted(resource)) {
+        await store.remove(resourcesKey(sessionKey), resourceField(resource));
+      }
+    }
+  }
+};
+
+// ==================== REAPER ====================
+
+const statusOf = (error: any): number | undefined => error?.response?.status;
+
+// Applies the reaper action to a resource. Returns whether the resource is
+// done with, or has to be looked at again on the next run.
+const reapResource = async (client: AxiosInstance, resource: TrackedResource, action: Exclude<ReaperAction, "none">) => {
+  const headers = organizationHeaders(resource.organizationId);
+  // Reaping runs outside of any tool call, so it is never cancelled
+  const signal = new AbortController().signal;
+
+  switch (resource.kind) {
+    case "command":
+      // Commands end with their session or sandbox
+      return true;
+    case "session":
+      // Best effort, a stopped sandbox has no sessions left anyway
+      await client.delete(`/toolbox/${resource.sandboxId}/toolbox/process/session/${resource.id}`, { headers }).catch(() => undefined);
+      return true;
+    case "volume":
+      // Volumes in use by a sandbox that is still being deleted fail and are tried again
+      if (action === "delete") {
+        await client.delete(`/volumes/${resource.id}`, { headers });
+      }
+      return true;
+    case "sandbox": {
+      const { data: sandbox } = await client.get(`/sandbox/${resource.id}`, { headers });
+      if ((BULK_ACTIONS[action].skipStates as readonly string[]).includes(sandbox.state)) {
+        return true;
+      }
+      // Only stopped sandboxes can be archived, so others are stopped first
+      if (action === "archive" && sandbox.state !== "stopped") {
+        if (sandbox.state === "started") {
+          await BULK_ACTIONS.stop.run(client, resource.id, { headers, signal });
+        }
+        return false;
+      }
+      await BULK_ACTIONS[action].run(client, resource.id, { headers, signal, params: action === "delete" ? { force: true } : undefined });
+      return true;
+    }
+  }
+};
+
+// Sandboxes have to be gone before their volumes can be deleted
+const REAP_ORDER: ResourceKind[] = ["command", "session", "sandbox", "volume"];
+
+// Client with the session's credentials, undefined if they cannot be used here
+const reaperClient = (session: SessionRecord) => {
+  if (session.apiKey === undefined) {
+    try {
+      return daytonaClient();
+    } catch {
+      return undefined;
+    }
+  }
+  const apiKey = unseal(session.apiKey);
+  return apiKey ? daytonaClient({ token: apiKey, clientId: "reaper", scopes: [] }) : undefined;
+};
+
+// Reaps the resources of an ended session, and forgets the session once none
+// are left. Resources that fail are kept and tried again on the next run.
+const reapSession = async (sessionKey: string, session: SessionRecord) => {
+  const store = stateStore();
+  const resources = await sessionResources(sessionKey);
+  resources.sort((a, b) => REAP_ORDER.indexOf(a.kind) - REAP_ORDER.indexOf(b.kind));
+  const expired = Date.now() - session.lastSeen > STATE_TTL_SECONDS * 1000;
+  const action = reaperAction(sessionKey);
+
+  const client = action === "none" ? undefined : reaperClient(session);
+  // Keys sealed by an instance with another secret are left to that instance
+  if (action !== "none" && !client && !expired) {
+    return;
+  }
+
+  let pending = 0;
+  if (client && action !== "none") {
+    for (const resource of resources) {
+      let done: boolean;
+      try {
+        done = await reapResource(client, resource, action);
+      } catch (error: any) {
+        // Resources that are gone, or out of reach of the session's credentials, are given up on
+        done = [401, 403, 404].includes(statusOf(error) ?? 0);
+        if (!done) {
+          console.warn(`Failed to ${action} ${resource.kind} ${resource.id} of MCP session ${sessionKey}: ${error.message}`);
+        }
+      }
+      if (done) {
+        await store.remove(resourcesKey(sessionKey), resourceField(resource));
+      } else {
+        pending++;
+      }
+    }
+  }
+
+  if (!pending || expired) {
+    await store.delete(resourcesKey(sessionKey));
+    await store.remove(SESSIONS_KEY, sessionKey);
+  }
+};
+
+const isIdle = (session: SessionRecord, now: number) => session.closedAt !== undefined
+  ? now - session.closedAt >= REAPER_GRACE_MINUTES * 60000
+  : now - session.lastSeen >= REAPER_IDLE_MINUTES * 60000;
+
+// Reaps the sessions that were closed or went idle
+export const reapSessions = async () => {
+  const now = Date.now();
+  const sessions = await stateStore().entries<SessionRecord>(SESSIONS_KEY);
+  for (const [sessionKey, session] of Object.entries(sessions)) {
+    if (isIdle(session, now)) {
+      await reapSession(sessionKey, session);
+    }
+  }
+};
+
+let lastReap = 0;
+let reaping: Promise<void> | undefined;
+let reapTimer: ReturnType<typeof setInterval> | undefined;
+
+const reap = () => {
+  lastReap = Date.now();
+  reaping ??= reapSessions()
+    .catch(error => console.error("Failed to reap MCP sessions", error))
+    .finally(() => reaping = undefined);
+};
+
+// Serverless instances do not run timers between requests, so tool calls
+// start the reaper as well, at most once a minute
+const reapAfterCall = () => {
+  if (Date.now() - lastReap >= REAP_INTERVAL_MS) {
+    reap();
+  }
+};
+
+const closeSession = async (sessionKey: string) => {
+  const store = stateStore();
+  const session = (await store.entries<SessionRecord>(SESSIONS_KEY))[sessionKey];
+  if (session) {
+    await store.put<SessionRecord>(SESSIONS_KEY, sessionKey, { ...session, closedAt: Date.now() });
+  }
+};
+
+// ==================== REGISTRATION ====================
+
+// Label updates keep the owner label a sandbox was created with, and cannot add
+// one it was not. Arguments are left alone if the sandbox cannot be read.
+const protectOwnerLabel = async (args: Record<string, any>, authInfo?: AuthInfo) => {
+  let owner: string | undefined;
+  try {
+    const { data: sandbox } = await daytonaClient(authInfo).get(`/sandbox/${args.sandboxId}`, {
+      headers: organizationHeaders(args.organizationId)
+    });
+    owner = sandbox.labels?.[OWNER_LABEL];
+  } catch {
+    return args;
+  }
+
+  const labels = Object.fromEntries(Object.entries(args.labels ?? {}).filter(([key]) => key !== OWNER_LABEL));
+  return {
+    ...args,
+    labels: owner === undefined ? labels : { ...labels, [OWNER_LABEL]: owner },
+    removeLabels: args.removeLabels?.filter((key: string) => key !== OWNER_LABEL)
+  };
+};
+
+// Tracks the sandboxes, volumes, sessions and long-running commands created by
+// each MCP session, labels its sandboxes with the session, and reaps them when
+// the session is closed or goes idle
+export const applyResourceTracking = (server: McpServer) => {
+  interceptTools(server, {
+    wrapCallback: (toolName, callback) => async (args, extra) => {
+      const callArgs = toolName === "setSandboxLabels" ? await protectOwnerLabel(args, extra.authInfo) : args;
+
+      const sessionKey = trackingKey(extra);
+      const trackedArgs = toolName === "createSandbox" || toolName === "provisionFromTemplate"
+        ? { ...callArgs, labels: { ...callArgs.labels, [OWNER_LABEL]: sessionKey } }
+        : callArgs;
+
+      const result = await callback(trackedArgs, extra);
+      try {
+        await recordCall(sessionKey, toolName, trackedArgs, result, extra.authInfo);
+      } catch (error) {
+        console.error(`Failed to track the resources of MCP session ${sessionKey}`, error);
+      }
+      reapAfterCall();
+      return result;
+    }
+  });
+
+  // SSE sessions end with their connection
+  const connect = server.connect.bind(server);
+  server.connect = (async transport => {
+    await connect(transport);
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      onclose?.();
+      if (transport.sessionId) {
+        closeSession(transport.sessionId).catch(error => console.error(`Failed to close MCP session ${transport.sessionId}`, error));
+      }
+    };
+  }) as McpServer["connect"];
+
+  reapTimer ??= setInterval(reap, REAP_INTERVAL_MS);
+  reapTimer.unref?.();
+};
@@ -0,0 +1,28 @@
+// ==================== GIT URLS ====================
+
+// Git URL utilities, so credentials embedded in a remote URL never reach the output or the logs
+
+// Username and password of a URL. Access tokens are often given as the
+// username, as in https://TOKEN@github.com/org/repo.git, so both are secrets
+export const urlCredentials = (url: string) => {
+  try {
+    const { username, password } = new URL(url);
+    return [username, password].filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return [];
+  }
+};
+
+// Masks the credentials of the URLs in a text, such as git errors that name the remote
+export const maskUrlCredentials = (text: string) => text.replace(/(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/@]+@/gi, "$1***@");
+
+export const stripUrlCredentials = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    parsed.username = "";
+    parsed.password = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
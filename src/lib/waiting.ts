@@ -0,0 +1,144 @@
+import axios from "axios";
+import { z } from "zod";
+import { ProgressExtra, sendProgress, sleep } from "@/lib/progress";
+
+// ==================== STATE TRANSITIONS ====================
+
+export const SANDBOX_TARGET_STATES = ["started", "stopped", "archived", "error"] as const;
+export const SNAPSHOT_TARGET_STATES = ["active", "inactive", "error"] as const;
+export const VOLUME_TARGET_STATES = ["ready", "deleted", "error"] as const;
+
+// States a resource does not leave by itself. Waiting for any other state
+// stops when one of these is reached.
+const ERROR_STATES = ["error", "build_failed"];
+
+const INITIAL_DELAY_MS = 1000;
+const MAX_DELAY_MS = 10000;
+const BACKOFF_FACTOR = 1.5;
+
+export const DEFAULT_WAIT_TIMEOUT = 60;
+
+// Optional wait parameters of the lifecycle tools
+export const waitParams = (states: readonly [string, ...string[]]) => ({
+  waitUntil: z.enum(states, {
+    description: "Wait until the resource reaches this state before returning (optional, returns immediately if not provided)"
+  }).optional(),
+  waitTimeout: z.number({
+    description: `Maximum number of seconds to wait. Default is ${DEFAULT_WAIT_TIMEOUT}`
+  }).optional()
+});
+
+export interface StatefulResource {
+  state?: string | null;
+  errorReason?: string | null;
+}
+
+export interface WaitResult<T extends StatefulResource> {
+  resource: T;
+  state: string;
+  errorReason?: string | null;
+  reached: boolean;
+  timedOut: boolean;
+  // Seconds spent waiting
+  elapsed: number;
+}
+
+// Polls a resource with exponential backoff until it reaches the target state,
+// fails, or the timeout in seconds runs out, reporting every state seen as
+// progress. Rejects if the tool call is cancelled.
+export const waitForState = async <T extends StatefulResource>(
+  fetchResource: () => Promise<T>,
+  target: string,
+  { timeout = DEFAULT_WAIT_TIMEOUT, extra, label }: { timeout?: number; extra: ProgressExtra; label: string }
+): Promise<WaitResult<T>> => {
+  const startedAt = Date.now();
+  let delay = INITIAL_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    const resource = await fetchResource();
+    const state = resource.state ?? "unknown";
+    const elapsed = Math.round((Date.now() - startedAt) / 1000);
+    await sendProgress(extra, attempt, `${label} is ${state} after ${elapsed}s`);
+
+    const reached = target === "error" ? ERROR_STATES.includes(state) : state === target;
+    if (reached || ERROR_STATES.includes(state)) {
+      return { resource, state, errorReason: resource.errorReason, reached, timedOut: false, elapsed };
+    }
+
+    const remaining = timeout * 1000 - (Date.now() - startedAt);
+    if (remaining <= 0) {
+      return { resource, state, errorReason: resource.errorReason, reached: false, timedOut: true, elapsed };
+    }
+
+    await sleep(Math.min(delay, remaining), extra.signal);
+    delay = Math.min(delay * BACKOFF_FACTOR, MAX_DELAY_MS);
+  }
+};
+
+// The wait result without the resource, as returned in structured content
+export const waitDetails = <T extends StatefulResource>({ resource, ...details }: WaitResult<T>) => details;
+
+// One line description of a wait result for tool output
+export const describeWait = (label: string, target: string, { state, errorReason, reached, timedOut, elapsed }: WaitResult<StatefulResource>) => {
+  if (reached) return `${label} reached ${state} after ${elapsed}s`;
+  if (timedOut) return `${label} is still ${state} after ${elapsed}s, waiting for ${target} timed out`;
+  return `${label} is ${state} instead of ${target}${errorReason ? `: ${errorReason}` : ""}`;
+};
+
+// ==================== PORT HEALTH ====================
+
+// Statuses of the preview proxy while nothing listens on the port yet
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+
+// Seconds a single health check request may take
+const CHECK_TIMEOUT = 10;
+
+export interface UrlWaitResult {
+  ready: boolean;
+  status?: number;
+  timedOut: boolean;
+  elapsed: number;
+}
+
+// Polls a URL with exponential backoff until it answers with a status other
+// than a gateway error, or the timeout in seconds runs out
+export const waitForUrl = async (
+  url: string,
+  headers: Record<string, string>,
+  { timeout = DEFAULT_WAIT_TIMEOUT, extra, label }: { timeout?: number; extra: ProgressExtra; label: string }
+): Promise<UrlWaitResult> => {
+  const startedAt = Date.now();
+  let delay = INITIAL_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    let status: number | undefined;
+    try {
+      const response = await axios.get(url, {
+        headers,
+        timeout: CHECK_TIMEOUT * 1000,
+        signal: extra.signal,
+        validateStatus: () => true,
+        maxRedirects: 0
+      });
+      status = response.status;
+    } catch (error) {
+      if (extra.signal.aborted) throw error;
+    }
+
+    const ready = status !== undefined && !UNAVAILABLE_STATUSES.includes(status);
+    const elapsed = Math.round((Date.now() - startedAt) / 1000);
+    await sendProgress(extra, attempt, `${label} ${ready ? "answered" : "is not answering"} after ${elapsed}s${status ? ` (HTTP ${status})` : ""}`);
+
+    if (ready) {
+      return { ready, status, timedOut: false, elapsed };
+    }
+
+    const remaining = timeout * 1000 - (Date.now() - startedAt);
+    if (remaining <= 0) {
+      return { ready, status, timedOut: true, elapsed };
+    }
+
+    await sleep(Math.min(delay, remaining), extra.signal);
+    delay = Math.min(delay * BACKOFF_FACTOR, MAX_DELAY_MS);
+  }
+};
@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { McpTestServer, startMcpServer } from "./helpers/mcp";
+
+// Bearer tokens are Daytona API keys, and the server's DAYTONA_API_KEY is used
+// for requests without one
+
+let mcp: McpTestServer;
+
+const currentKey = async (token?: string) => {
+  const client = await mcp.connect(token);
+  const result = await client.callTool({ name: "getCurrentApiKey", arguments: {} }) as CallToolResult;
+  return result.structuredContent as Record<string, any>;
+};
+
+beforeAll(async () => {
+  mcp = await startMcpServer();
+});
+
+afterAll(async () => {
+  await mcp?.stop();
+});
+
+describe("bearer API keys", () => {
+  test("requests without a bearer token use the server's key", async () => {
+    expect(await currentKey()).toMatchObject({ apiKey: { name: "default" } });
+  });
+
+  test("the bearer token is sent to Daytona as the API key", async () => {
+    const client = await mcp.connect();
+    const created = await client.callTool({ name: "createApiKey", arguments: { name: "caller", permissions: ["write:sandboxes"] } }) as CallToolResult;
+    const { apiKey } = created.structuredContent as Record<string, any>;
+
+    expect(await currentKey(apiKey.value)).toMatchObject({ apiKey: { name: "caller" } });
+  });
+
+  test("SSE requests with a bearer token are refused, as the token would not reach the tools", async () => {
+    const response = await fetch(new URL("/sse", mcp.url), { headers: { Authorization: "Bearer fake", Accept: "text/event-stream" } });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "invalid_request" });
+  });
+
+  test("a rejected bearer token does not fall back to the server's key", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await currentKey("invalid-key")).toMatchObject({ error: { code: "UNAUTHORIZED", status: 401 } });
+  });
+});
+
+describe("scopes", () => {
+  test("tools that only read need the read scope", async () => {
+    const { toolScope } = await import("@/lib/auth");
+    for (const tool of ["getPreviewUrl", "waitForPort", "listTemplates", "listMyResources", "getSandbox", "listSandboxesByOwner"]) {
+      expect(toolScope(tool), tool).toBe("sandboxes:read");
+    }
+    for (const tool of ["createSandbox", "deleteSandbox", "runCode", "countSandboxes", "lister"]) {
+      expect(toolScope(tool), tool).toBe("sandboxes:write");
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { ChildProcess, spawn } from "child_process";
+import { resolve } from "path";
+
+export interface FakeApi {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+// Starts scripts/fake-daytona-api.mjs on a free port, with FAKE_* settings from `env`
+export const startFakeApi = (env: Record<string, string> = {}) =>
+  new Promise<FakeApi>((resolvePromise, reject) => {
+    const child: ChildProcess = spawn(process.execPath, [resolve(__dirname, "../../scripts/fake-daytona-api.mjs")], {
+      env: { ...process.env, FAKE_TRANSITION_MS: "50", ...env, PORT: "0" },
+      stdio: ["ignore", "pipe", "inherit"]
+    });
+
+    const stop = () => new Promise<void>(done => {
+      if (child.exitCode !== null) return done();
+      child.once("exit", () => done());
+      child.kill();
+    });
+
+    let output = "";
+    child.stdout!.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      const port = output.match(/listening on http:\/\/localhost:(\d+)/)?.[1];
+      if (port) {
+        // Request logs are not needed once the API is up
+        child.stdout!.removeAllListeners("data");
+        child.stdout!.resume();
+        resolvePromise({ url: `http://localhost:${port}`, stop });
+      }
+    });
+    child.once("exit", code => reject(new Error(`Fake Daytona API exited with code ${code}:\n${output}`)));
+  });
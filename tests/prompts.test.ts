@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, expect, test } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpTestServer, startMcpServer } from "./helpers/mcp";
+
+// Prompts tell the model which tools to call with which arguments, so the
+// calls they spell out must be valid
+
+let mcp: McpTestServer;
+let client: Client;
+
+beforeAll(async () => {
+  mcp = await startMcpServer();
+  client = await mcp.connect("fake");
+});
+
+afterAll(async () => {
+  await mcp?.stop();
+});
+
+test("tool calls in prompts have every required argument", async () => {
+  const { tools } = await client.listTools();
+  const { prompts } = await client.listPrompts();
+
+  for (const prompt of prompts) {
+    const args = Object.fromEntries((prompt.arguments ?? []).filter(arg => arg.required).map(arg => [arg.name, "example"]));
+    const { messages } = await client.getPrompt({ name: prompt.name, arguments: args });
+    const text = messages.map(message => message.content.type === "text" ? message.content.text : "").join("\n");
+
+    for (const [, toolName, json] of text.matchAll(/`(\w+)` with\n```json\n([\s\S]*?)\n```/g)) {
+      const tool = tools.find(candidate => candidate.name === toolName);
+      expect(tool, `${prompt.name} calls ${toolName}`).toBeDefined();
+      const required = (tool!.inputSchema.required ?? []) as string[];
+      expect(Object.keys(JSON.parse(json)), `${prompt.name} calls ${toolName}`).toEqual(expect.arrayContaining(required));
+      expect(Object.keys(tool!.inputSchema.properties ?? {}), `${prompt.name} calls ${toolName}`).toEqual(expect.arrayContaining(Object.keys(JSON.parse(json))));
+    }
+  }
+});
+
+test("stale sandboxes are found by their last update", async () => {
+  const { messages } = await client.getPrompt({ name: "clean-up-stale-sandboxes", arguments: { olderThanDays: "7" } });
+  const text = messages.map(message => message.content.type === "text" ? message.content.text : "").join("\n");
+  const [, json] = text.match(/`listSandboxes` with\n```json\n([\s\S]*?)\n```/) ?? [];
+
+  const args = JSON.parse(json);
+  expect(args).toMatchObject({ sortBy: "updatedAt" });
+  expect(args).not.toHaveProperty("createdBefore");
+  expect(Date.now() - Date.parse(args.updatedBefore)).toBeCloseTo(7 * 24 * 60 * 60 * 1000, -5);
+});
@@ -0,0 +1,33 @@
+import { afterAll, beforeAll, expect, test } from "vitest";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { McpTestServer, startMcpServer } from "./helpers/mcp";
+
+// With DAYTONA_REQUIRE_AUTH=true the server's DAYTONA_API_KEY is never used
+
+let mcp: McpTestServer;
+
+beforeAll(async () => {
+  mcp = await startMcpServer({ env: { DAYTONA_REQUIRE_AUTH: "true" } });
+});
+
+afterAll(async () => {
+  await mcp?.stop();
+});
+
+test("requests without a bearer token are rejected", async () => {
+  const response = await fetch(new URL("/mcp", mcp.url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+  });
+
+  expect(response.status).toBe(401);
+  expect(response.headers.get("WWW-Authenticate")).toMatch(/^Bearer/);
+  await expect(mcp.connect()).rejects.toThrow();
+});
+
+test("requests with a bearer token are served", async () => {
+  const client = await mcp.connect("fake");
+  const result = await client.callTool({ name: "listSandboxes", arguments: {} }) as CallToolResult;
+  expect(result.isError).toBeFalsy();
+});
@@ -0,0 +1,126 @@
+import axios, { AxiosInstance } from "axios";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { FakeApi, startFakeApi } from "./helpers/fakeApi";
+
+// The resilient client against fake APIs that throttle or fail every request.
+// Settings are read when the module loads, so it is imported once they are set.
+
+Object.assign(process.env, {
+  DAYTONA_REQUEST_TIMEOUT: "1",
+  DAYTONA_MAX_RETRIES: "2",
+  DAYTONA_MAX_CONCURRENCY: "2",
+  DAYTONA_CIRCUIT_THRESHOLD: "3",
+  DAYTONA_CIRCUIT_COOLDOWN: "1"
+});
+
+let resilience: typeof import("@/lib/resilience");
+let healthy: FakeApi;
+let throttled: FakeApi;
+let failing: FakeApi;
+
+const client = (api: FakeApi, apiKey: string) => resilience.makeResilient(axios.create({
+  baseURL: api.url,
+  timeout: resilience.REQUEST_TIMEOUT_MS,
+  headers: { Authorization: `Bearer ${apiKey}` }
+}), apiKey);
+
+const failure = (request: Promise<unknown>) => request.then(() => {
+  throw new Error("The request succeeded");
+}, error => error);
+
+const timed = async (action: () => Promise<unknown>) => {
+  const start = Date.now();
+  await action();
+  return Date.now() - start;
+};
+
+beforeAll(async () => {
+  healthy = await startFakeApi();
+  throttled = await startFakeApi({ FAKE_RATE_LIMIT: "1" });
+  failing = await startFakeApi({ FAKE_ERROR_RATE: "1" });
+  resilience = await import("@/lib/resilience");
+});
+
+afterAll(async () => {
+  await Promise.all([healthy, throttled, failing].map(api => api?.stop()));
+});
+
+describe("retries", () => {
+  test("throttled requests are retried after Retry-After", async () => {
+    const api = client(throttled, "throttled");
+    let responses: any[] = [];
+    const elapsed = await timed(async () => {
+      responses = await Promise.all([api.get("/sandbox"), api.get("/sandbox"), api.post("/volumes", { name: "retried" })]);
+    });
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(responses.some(response => response.config.retries > 0)).toBe(true);
+    expect(elapsed).toBeGreaterThanOrEqual(900);
+  });
+
+  test("failed reads are retried up to DAYTONA_MAX_RETRIES times", async () => {
+    const error = await failure(client(failing, "reads").get("/sandbox"));
+    expect(error.response.status).toBe(503);
+    expect(error.config.retries).toBe(2);
+  });
+
+  test("failed writes are not retried, as they may have been processed", async () => {
+    const error = await failure(client(failing, "writes").post("/sandbox", {}));
+    expect(error.response.status).toBe(503);
+    expect(error.config.retries).toBeUndefined();
+  });
+});
+
+describe("limiter", () => {
+  test("limits the requests in flight per API key", async () => {
+    const { data: sandbox } = await client(healthy, "setup").post("/sandbox", { snapshot: "daytonaio/sandbox:0.3.0" });
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const run = (api: AxiosInstance) => api.post(`/toolbox/${sandbox.id}/toolbox/process/execute`, { command: "sleep 0.4" });
+    const limited = client(healthy, "limited");
+    const elapsed = await timed(() => Promise.all([run(limited), run(limited), run(limited), run(limited)]));
+    expect(elapsed).toBeGreaterThanOrEqual(750);
+
+    // Another key has slots of its own
+    const others = [client(healthy, "first"), client(healthy, "second")];
+    expect(await timed(() => Promise.all([...others, ...others].map(run)))).toBeLessThan(750);
+  });
+});
+
+describe("circuit breaker", () => {
+  test("fails fast once an API key failed too often, and probes after the cooldown", async () => {
+    const api = client(failing, "breaker");
+    await failure(api.get("/sandbox"));
+
+    const open = await failure(api.get("/sandbox"));
+    expect(open).toBeInstanceOf(resilience.CircuitOpenError);
+    expect(open.retryAfter).toBe(1);
+
+    // Other keys are not affected
+    expect((await failure(client(failing, "bystander").post("/sandbox", {}))).response.status).toBe(503);
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    const probe = await failure(api.post("/sandbox", {}));
+    expect(probe.response.status).toBe(503);
+    expect(await failure(api.get("/sandbox"))).toBeInstanceOf(resilience.CircuitOpenError);
+  });
+
+  test("timeouts of requests with their own timeout do not count as failures", async () => {
+    const { data: sandbox } = await client(healthy, "setup").post("/sandbox", { snapshot: "daytonaio/sandbox:0.3.0" });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const execute = (api: AxiosInstance, timeout?: number) =>
+      failure(api.post(`/toolbox/${sandbox.id}/toolbox/process/execute`, { command: "sleep 2" }, { timeout }));
+
+    const commands = client(healthy, "commands");
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect((await execute(commands, 1200)).code).toBe("ECONNABORTED");
+    }
+    expect((await commands.get("/sandbox")).status).toBe(200);
+
+    const requests = client(healthy, "requests");
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect((await execute(requests)).code).toBe("ECONNABORTED");
+    }
+    expect(await failure(requests.get("/sandbox"))).toBeInstanceOf(resilience.CircuitOpenError);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { McpTestServer, startMcpServer } from "./helpers/mcp";
+
+// Resources are tracked per caller of the stateless endpoint, and reaped with
+// the caller's own key once the caller went idle
+
+const SNAPSHOT = "daytonaio/sandbox:0.3.0";
+
+let mcp: McpTestServer;
+
+const call = async (client: Client, name: string, args: Record<string, unknown> = {}) => {
+  const result = await client.callTool({ name, arguments: args }) as CallToolResult;
+  return result as CallToolResult & { structuredContent: Record<string, any> };
+};
+
+const createSandbox = async (client: Client) =>
+  (await call(client, "createSandbox", { snapshot: SNAPSHOT, waitUntil: "started", waitTimeout: 10 })).structuredContent.sandbox;
+
+beforeAll(async () => {
+  mcp = await startMcpServer({ env: { DAYTONA_REAPER_ACTION: "delete" } });
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  await mcp?.stop();
+});
+
+describe("callers", () => {
+  test("each bearer token only sees its own resources", async () => {
+    const alice = await mcp.connect("alice-key");
+    const bob = await mcp.connect("bob-key");
+    const sandbox = await createSandbox(alice);
+
+    const mine = await call(alice, "listMyResources");
+    const theirs = await call(bob, "listMyResources");
+    expect(mine.structuredContent.resources).toMatchObject([{ kind: "sandbox", id: sandbox.id }]);
+    expect(theirs.structuredContent.resources).toEqual([]);
+    expect(mine.structuredContent.sessionId).not.toBe(theirs.structuredContent.sessionId);
+  });
+
+  test("calls without a bearer token are tracked for the server key", async () => {
+    const anonymous = await mcp.connect();
+    const sandbox = await createSandbox(anonymous);
+
+    expect(sandbox.labels).toHaveProperty("mcp-session", "caller-server");
+    const { structuredContent } = await call(anonymous, "listMyResources");
+    expect(structuredContent).toMatchObject({ sessionId: "caller-server", resources: [{ kind: "sandbox", id: sandbox.id }] });
+  });
+
+  test("label updates keep the owner label", async () => {
+    const client = await mcp.connect("labels-key");
+    const sandbox = await createSandbox(client);
+    const owner = sandbox.labels["mcp-session"];
+
+    const replaced = await call(client, "setSandboxLabels", { sandboxId: sandbox.id, labels: { team: "e2e", "mcp-session": "someone-else" } });
+    expect(replaced.structuredContent.labels).toEqual({ team: "e2e", "mcp-session": owner });
+
+    const merged = await call(client, "setSandboxLabels", { sandboxId: sandbox.id, labels: {}, mode: "merge", removeLabels: ["team", "mcp-session"] });
+    expect(merged.structuredContent.labels).toEqual({ "mcp-session": owner });
+  });
+});
+
+describe("reaper", () => {
+  test("session state holds no plaintext API keys", async () => {
+    const { stateStore } = await import("@/lib/state");
+    const client = await mcp.connect("secret-key");
+    await createSandbox(client);
+
+    const sessions = await stateStore().entries("sessions");
+    expect(Object.keys(sessions).length).toBeGreaterThan(0);
+    expect(JSON.stringify(sessions)).not.toContain("secret-key");
+  });
+
+  test("idle sessions are reaped with the key stored for them", async () => {
+    const { reapSessions } = await import("@/lib/tracking");
+    const client = await mcp.connect("reaped-key");
+    const sandbox = await createSandbox(client);
+
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 31 * 60 * 1000 });
+    await reapSessions();
+    vi.useRealTimers();
+
+    expect(await call(client, "listMyResources")).toMatchObject({ structuredContent: { resources: [] } });
+    const response = await fetch(`${mcp.api.url}/sandbox/${sandbox.id}`, { headers: { Authorization: "Bearer reaped-key" } });
+    expect(response.status === 404 || (await response.json()).state === "destroying").toBe(true);
+  });
+});
@@ -0,0 +1,20 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url))
+    }
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // Settings are read from the environment when modules load, so every file
+    // gets its own process, and files run one after another as each starts
+    // its own fake API
+    pool: "forks",
+    fileParallelism: false,
+    testTimeout: 30_000,
+    hookTimeout: 60_000
+  }
+});